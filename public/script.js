@@ -7,6 +7,13 @@ document.addEventListener('DOMContentLoaded', function() {
     const audioFile = document.getElementById('audioFile');
     const processBtn = document.getElementById('processButton');
     const downloadBtn = document.getElementById('downloadButton');
+    const loginBtn = document.getElementById('loginButton');
+    
+    // Login button event listener
+    if (loginBtn) {
+        loginBtn.addEventListener('click', login);
+        updateAuthStatus();
+    }
     
     // Drag and drop functionality
     if (uploadSection && audioFile) {
@@ -66,6 +73,66 @@ document.addEventListener('DOMContentLoaded', function() {
 let currentTranscriptionResult = null;
 let currentExtractionResult = null;
 
+async function login() {
+    const email = document.getElementById('email').value;
+    const password = document.getElementById('password').value;
+
+    const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ email, password })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+        showError('Sign in failed: ' + (result.error || response.statusText));
+        return;
+    }
+
+    localStorage.setItem('token', result.token);
+    localStorage.setItem('refreshToken', result.refreshToken);
+    localStorage.setItem('userEmail', result.user.email);
+    updateAuthStatus();
+}
+
+function updateAuthStatus() {
+    const email = localStorage.getItem('userEmail');
+    document.getElementById('authStatus').textContent = email ? `Signed in as ${email}` : 'Not signed in';
+}
+
+// Refresh the access token once when the API rejects it
+async function authFetch(url, options = {}) {
+    const withAuth = () => ({
+        ...options,
+        headers: {
+            ...(options.headers || {}),
+            'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+    });
+
+    let response = await fetch(url, withAuth());
+    if (response.status === 401 && localStorage.getItem('refreshToken')) {
+        const refreshResponse = await fetch('/api/auth/refresh', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ refreshToken: localStorage.getItem('refreshToken') })
+        });
+
+        if (refreshResponse.ok) {
+            const tokens = await refreshResponse.json();
+            localStorage.setItem('token', tokens.token);
+            localStorage.setItem('refreshToken', tokens.refreshToken);
+            response = await fetch(url, withAuth());
+        }
+    }
+
+    return response;
+}
+
 async function processAudio() {
     const file = audioFile.files[0];
     if (!file) {
@@ -80,23 +147,26 @@ async function processAudio() {
     document.getElementById('results').style.display = 'none';
     
     try {
-        // Step 1: Upload and transcribe audio
-        console.log('Step 1: Transcribing audio...');
-        const transcriptionResult = await transcribeAudio(file);
-        console.log('Transcription result:', transcriptionResult);
+        // Transcription and extraction run server-side in one call
+        console.log('Running voice pipeline...');
+        const pipelineResult = await runPipeline(file, extractionType);
+        console.log('Pipeline result:', pipelineResult);
         
         // Store and display transcription
-        currentTranscriptionResult = transcriptionResult;
-        document.getElementById('transcriptionText').textContent = JSON.stringify(transcriptionResult, null, 2);
-        
-        // Step 2: Extract data from transcription
-        console.log('Step 2: Extracting data...');
-        const extractionResult = await extractData(transcriptionResult.transcription.text, extractionType);
-        console.log('Extraction result:', extractionResult);
+        currentTranscriptionResult = {
+            success: true,
+            transcription: pipelineResult.transcription,
+            metadata: pipelineResult.metadata
+        };
+        document.getElementById('transcriptionText').textContent = JSON.stringify(currentTranscriptionResult, null, 2);
         
         // Store and display extraction
-        currentExtractionResult = extractionResult;
-        document.getElementById('extractionText').textContent = JSON.stringify(extractionResult, null, 2);
+        currentExtractionResult = {
+            success: pipelineResult.success,
+            extractedData: pipelineResult.extraction,
+            metadata: pipelineResult.metadata
+        };
+        document.getElementById('extractionText').textContent = JSON.stringify(currentExtractionResult, null, 2);
         
         // Show results
         document.getElementById('loading').style.display = 'none';
@@ -118,39 +188,21 @@ async function processAudio() {
     }
 }
 
-async function transcribeAudio(file) {
+async function runPipeline(file, extractionType) {
     const formData = new FormData();
     formData.append('audio', file);
     formData.append('model', 'fal-whisper');
     formData.append('timestamp', 'true');
     formData.append('speakerDiarization', 'false');
+    formData.append('extractionType', extractionType);
 
-    const response = await fetch('/api/transcription/upload', {
+    const response = await authFetch('/api/pipeline', {
         method: 'POST',
         body: formData
     });
 
     if (!response.ok) {
-        throw new Error(`Transcription failed: ${response.statusText}`);
-    }
-
-    return await response.json();
-}
-
-async function extractData(transcription, extractionType) {
-    const response = await fetch('/api/extraction/extract', {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-            transcription: transcription,
-            extractionType: extractionType
-        })
-    });
-
-    if (!response.ok) {
-        throw new Error(`Data extraction failed: ${response.statusText}`);
+        throw new Error(`Voice pipeline failed: ${response.statusText}`);
     }
 
     return await response.json();
@@ -265,7 +317,10 @@ function convertToXML(data) {
     xml += `    <success>${data.extraction.extractedData?.success || false}</success>\n`;
     xml += `    <confidence>${data.extraction.extractedData?.confidence || 0}</confidence>\n`;
     
-    if (data.extraction.extractedData?.extractedData) {
+    if (data.extraction.extractedData?.extractedData && data.extraction_type !== 'repair_details') {
+        // Focused extraction types return their own field sets
+        xml += fieldsToXML(data.extraction.extractedData.extractedData, '    ');
+    } else if (data.extraction.extractedData?.extractedData) {
         const extractedFields = data.extraction.extractedData.extractedData;
         
         // Customer Information
@@ -304,7 +359,7 @@ function convertToXML(data) {
         xml += `      <repairable_condition>${escapeXML(extractedFields.repairable_condition || '')}</repairable_condition>\n`;
         xml += `      <primary_impact>${escapeXML(extractedFields.primary_impact || '')}</primary_impact>\n`;
         xml += `      <secondary_impact>${escapeXML(extractedFields.secondary_impact || '')}</secondary_impact>\n`;
-        xml += `      <drivable_status>${escapeXML(extractedFields.drivable_status || '')}</drivable_status>\n`;
+        xml += `      <drivable_status>${escapeXML(extractedFields.drivable_status ?? '')}</drivable_status>\n`;
         xml += `      <impact_notes>${escapeXML(extractedFields.impact_notes || '')}</impact_notes>\n`;
         xml += `      <prior_damage_notes>${escapeXML(extractedFields.prior_damage_notes || '')}</prior_damage_notes>\n`;
         xml += `      <problem_description>${escapeXML(extractedFields.problem_description || '')}</problem_description>\n`;
@@ -334,11 +389,9 @@ function convertToXML(data) {
         xml += `      <installation_notes>${escapeXML(extractedFields.installation_notes || '')}</installation_notes>\n`;
         xml += `      <paint_needed>${escapeXML(extractedFields.paint_needed || '')}</paint_needed>\n`;
         xml += `      <operation_notes>${escapeXML(extractedFields.operation_notes || '')}</operation_notes>\n`;
-        xml += `      <estimate_line>${escapeXML(extractedFields.estimate_line || '')}</estimate_line>\n`;
-        xml += `      <operation_type>${escapeXML(extractedFields.operation_type || '')}</operation_type>\n`;
-        xml += `      <operation_description>${escapeXML(extractedFields.operation_description || '')}</operation_description>\n`;
-        xml += `      <quantity>${escapeXML(extractedFields.quantity || '')}</quantity>\n`;
-        xml += `      <unit_price>${escapeXML(extractedFields.unit_price || '')}</unit_price>\n`;
+        xml += fieldsToXML({ estimate_lines: extractedFields.estimate_lines || [] }, '      ');
+        xml += `      <labor_rate>${escapeXML(extractedFields.labor_rate ?? '')}</labor_rate>\n`;
+        xml += `      <refinish_rate>${escapeXML(extractedFields.refinish_rate ?? '')}</refinish_rate>\n`;
         xml += `      <estimated_total>${escapeXML(extractedFields.estimated_total || '')}</estimated_total>\n`;
         xml += '    </parts_operations>\n';
         
@@ -354,7 +407,26 @@ function convertToXML(data) {
     return xml;
 }
 
+function fieldsToXML(fields, indent) {
+    let xml = '';
+    for (const [name, value] of Object.entries(fields)) {
+        if (Array.isArray(value) && value.some(item => item && typeof item === 'object')) {
+            xml += `${indent}<${name}>\n`;
+            value.forEach(item => {
+                xml += `${indent}  <item>\n${fieldsToXML(item, indent + '    ')}${indent}  </item>\n`;
+            });
+            xml += `${indent}</${name}>\n`;
+        } else {
+            xml += `${indent}<${name}>${escapeXML(value ?? '')}</${name}>\n`;
+        }
+    }
+    return xml;
+}
+
 function escapeXML(text) {
+    if (Array.isArray(text)) {
+        return escapeXML(text.join(', '));
+    }
     if (typeof text !== 'string') {
         return String(text || '');
     }
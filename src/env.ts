@@ -0,0 +1,4 @@
+import dotenv from 'dotenv';
+
+// Imported first by every entry point: modules read their settings from process.env as they load
+dotenv.config({ path: '.env.local' });
@@ -1,16 +1,21 @@
+import './env';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import dotenv from 'dotenv';
 import { transcriptionRoutes } from './routes/transcription';
 import { authRoutes } from './routes/auth';
 import { extractionRoutes } from './routes/extraction';
+import { shopRoutes } from './routes/shops';
+import { jobRoutes } from './routes/jobs';
+import { pipelineRoutes } from './routes/pipeline';
+import { repairJobRoutes } from './routes/repairJobs';
+import { audioRoutes } from './routes/audio';
+import { attachStreamingServer, STREAM_PATH } from './routes/stream';
 import { errorHandler } from './middleware/errorHandler';
-// import { authMiddleware } from './middleware/auth';
-
-// Load environment variables
-dotenv.config({ path: '.env.local' });
+import { authMiddleware } from './middleware/auth';
+import { jobWorker } from './services/jobQueue';
+import { scheduleAudioPurge } from './services/audioRetention';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -46,10 +51,19 @@ app.get('/health', (req, res) => {
 });
 
 
-// Public routes (no authentication required for testing)
+// Public routes
 app.use('/api/auth', authRoutes);
-app.use('/api/transcription', transcriptionRoutes);
-app.use('/api/extraction', extractionRoutes);
+
+// Playback requires a login; signed download links do not
+app.use('/api/audio', audioRoutes);
+
+// Protected routes (records are scoped to the caller's shop and role)
+app.use('/api/shops', authMiddleware, shopRoutes);
+app.use('/api/transcription', authMiddleware, transcriptionRoutes);
+app.use('/api/extraction', authMiddleware, extractionRoutes);
+app.use('/api/jobs', authMiddleware, jobRoutes);
+app.use('/api/pipeline', authMiddleware, pipelineRoutes);
+app.use('/api/repair-jobs', authMiddleware, repairJobRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -61,12 +75,26 @@ app.use('*', (req, res) => {
 
 // Start server only in non-production (local dev)
 if (process.env.NODE_ENV !== 'production') {
-  app.listen(PORT, () => {
+  const server = app.listen(PORT, () => {
     console.log(`🚀 Server running on port ${PORT}`);
     console.log(`📝 Health check: http://localhost:${PORT}/health`);
     console.log(`🎤 Transcription API: http://localhost:${PORT}/api/transcription`);
     console.log(`🔍 Data extraction API: http://localhost:${PORT}/api/extraction`);
+    console.log(`⏳ Jobs API: http://localhost:${PORT}/api/jobs`);
+    console.log(`🛠️  Voice pipeline API: http://localhost:${PORT}/api/pipeline`);
+    console.log(`📡 Streaming transcription: ws://localhost:${PORT}${STREAM_PATH}`);
   });
+
+  // WebSocket streaming needs a long-lived server, so it is not available on serverless deployments
+  attachStreamingServer(server);
+
+  // Background jobs run here too unless a separate worker (npm run worker) takes them
+  if (process.env.RUN_JOB_WORKER !== 'false') {
+    jobWorker.start();
+  }
+
+  // Delete recordings past each shop's retention period, at startup and then periodically
+  scheduleAudioPurge();
 }
 
 export default app; 
\ No newline at end of file
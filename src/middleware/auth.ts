@@ -1,18 +1,48 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { userRepository, UserRole } from '../repositories/userRepository';
+import { AccessTokenPayload, TokenError, TokenService } from '../services/tokenService';
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  shopId: string;
+  role: UserRole;
+}
 
 export interface AuthenticatedRequest extends Request {
-  user?: {
-    id: string;
-    email: string;
-  };
+  user?: AuthenticatedUser;
+  token?: AccessTokenPayload;
 }
 
-export const authMiddleware = (
+// Verify an access token and load the user it belongs to; shared by HTTP and WebSocket entry points
+export const authenticateAccessToken = async (
+  token: string
+): Promise<{ user: AuthenticatedUser; payload: AccessTokenPayload }> => {
+  const tokenService = new TokenService();
+  const payload = tokenService.verifyAccessToken(token);
+
+  // Tokens outlive accounts, so confirm the user still exists and is enabled
+  const user = await userRepository.findById(payload.id);
+  if (!user || user.status !== 'active') {
+    throw new TokenError('Account is disabled or no longer exists');
+  }
+
+  if (await tokenService.isAccessTokenRevoked(payload, user)) {
+    throw new TokenError('Token has been revoked');
+  }
+
+  return {
+    user: { id: user.id, email: user.email, shopId: user.shopId, role: user.role },
+    payload
+  };
+};
+
+export const authMiddleware = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
     
@@ -29,20 +59,65 @@ export const authMiddleware = (
       return;
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as {
-      id: string;
-      email: string;
-    };
+    const { user, payload } = await authenticateAccessToken(token);
 
-    req.user = decoded;
+    req.user = user;
+    req.token = payload;
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
       res.status(401).json({ error: 'Invalid token' });
       return;
     }
+
+    if (error instanceof TokenError) {
+      res.status(401).json({ error: error.message });
+      return;
+    }
     
     console.error('Auth middleware error:', error);
     res.status(500).json({ error: 'Authentication failed' });
   }
-}; 
\ No newline at end of file
+};
+
+// Roles allowed to read every record in their shop; others only see their own work
+const SHOP_WIDE_ROLES: UserRole[] = ['estimator', 'manager', 'admin'];
+
+export const requireRole = (...roles: UserRole[]) => (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  if (!roles.includes(req.user.role)) {
+    res.status(403).json({ error: 'Insufficient permissions for this action' });
+    return;
+  }
+
+  next();
+};
+
+export interface AccessScope {
+  shopId: string;
+  userId?: string;
+}
+
+// Repository filter describing which records the current user may read
+export const getAccessScope = (user: AuthenticatedUser): AccessScope => {
+  if (SHOP_WIDE_ROLES.includes(user.role)) {
+    return { shopId: user.shopId };
+  }
+  return { shopId: user.shopId, userId: user.id };
+};
+
+export const canAccessRecord = (
+  user: AuthenticatedUser,
+  record: { shopId: string; userId: string }
+): boolean => {
+  const scope = getAccessScope(user);
+  return record.shopId === scope.shopId && (!scope.userId || record.userId === scope.userId);
+};
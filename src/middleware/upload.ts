@@ -0,0 +1,81 @@
+import { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { hasTranscriptionProvider } from '../services/transcriptionProviders/registry';
+import { sniffAudioFormat } from '../services/audioPreprocessing';
+import { SpeakerRole, SPEAKER_ROLES } from '../services/speakerRoles';
+import { checkCallbackUrl } from '../services/webhooks';
+
+// Configure multer for file uploads
+const storage = multer.memoryStorage();
+export const audioUpload = multer({
+  storage,
+  limits: {
+    fileSize: parseInt(process.env.MAX_FILE_SIZE || '50000000'), // 50MB default
+  },
+  fileFilter: (req, file, cb) => {
+    // Phones label recordings inconsistently (audio/x-m4a, video/mp4, application/octet-stream ...);
+    // anything plausibly audio is let through and identified from its bytes by detectAudioFormat
+    if (/^(audio|video)\//.test(file.mimetype) || file.mimetype === 'application/octet-stream') {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only audio files are allowed.'));
+    }
+  }
+});
+
+// Replace the client's MIME type with the format found in the file itself
+export const detectAudioFormat = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.file) {
+    next();
+    return;
+  }
+
+  const format = sniffAudioFormat(req.file.buffer);
+  if (!format) {
+    res.status(400).json({ error: 'Invalid file type. The upload is not a recognized audio format.' });
+    return;
+  }
+
+  req.file.mimetype = format.mimeType;
+  next();
+};
+
+// Diarization labels a user has identified, e.g. { "SPEAKER_1": "customer" }
+export const speakerRolesSchema = z.record(
+  z.string().min(1).max(50),
+  z.enum(SPEAKER_ROLES as [SpeakerRole, ...SpeakerRole[]])
+);
+
+// Transcription options sent as multipart form fields alongside the audio
+export const transcriptionOptionsSchema = z.object({
+  language: z.string().optional(),
+  model: z.string().optional().default(process.env.DEFAULT_TRANSCRIPTION_MODEL || 'fal-whisper')
+    .refine(hasTranscriptionProvider, model => ({ message: `Unknown transcription model: ${model}` })),
+  timestamp: z.string().optional().transform(val => val === 'true').default('true'),
+  speakerDiarization: z.string().optional().transform(val => val === 'true').default('false'),
+  // Sent as a JSON string since form fields are flat
+  speakerRoles: z.string().optional().transform((val, ctx) => {
+    if (val === undefined) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(val) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'speakerRoles must be a JSON object' });
+      return z.NEVER;
+    }
+  }).pipe(speakerRolesSchema.optional()),
+  translate: z.string().optional().transform(val => val === undefined ? undefined : val === 'true')
+});
+
+// Fields that switch an upload into a background job; the callback check resolves DNS, so parse with parseAsync
+export const backgroundJobSchema = z.object({
+  async: z.string().optional().transform(val => val === 'true'),
+  callbackUrl: z.string().url().superRefine(async (url, ctx) => {
+    const problem = await checkCallbackUrl(url);
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }
+  }).optional()
+});
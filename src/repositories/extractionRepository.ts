@@ -0,0 +1,83 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createRecordStore, PagedResult, RecordStore, StoredRecord } from '../storage/recordStore';
+import { ExtractionResult, ExtractionType } from '../services/dataExtraction';
+
+export interface StoredExtraction extends StoredRecord {
+  shopId: string;
+  userId: string;
+  transcriptionId?: string;
+  transcription: string;
+  extractionType: ExtractionType;
+  result: ExtractionResult;
+}
+
+export interface NewExtraction {
+  shopId: string;
+  userId: string;
+  transcriptionId?: string;
+  transcription: string;
+  extractionType: ExtractionType;
+  result: ExtractionResult;
+}
+
+export interface ExtractionFilter {
+  shopId: string;
+  userId?: string;
+  extractionType?: ExtractionType;
+  transcriptionId?: string;
+  schemaId?: string;
+  success?: boolean;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+export class ExtractionRepository {
+  constructor(private store: RecordStore<StoredExtraction>) {}
+
+  async create(data: NewExtraction): Promise<StoredExtraction> {
+    const now = new Date().toISOString();
+    return this.store.insert({
+      id: `ext_${uuidv4()}`,
+      ...data,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async findById(id: string): Promise<StoredExtraction | null> {
+    return this.store.get(id);
+  }
+
+  async findByIds(ids: string[]): Promise<StoredExtraction[]> {
+    const wanted = new Set(ids);
+    const { items } = await this.store.query({ where: record => wanted.has(record.id), order: 'asc' });
+    return items;
+  }
+
+  async list(filter: ExtractionFilter): Promise<PagedResult<StoredExtraction>> {
+    return this.store.query({
+      where: record =>
+        record.shopId === filter.shopId &&
+        (!filter.userId || record.userId === filter.userId) &&
+        (!filter.extractionType || record.extractionType === filter.extractionType) &&
+        (!filter.transcriptionId || record.transcriptionId === filter.transcriptionId) &&
+        (!filter.schemaId || record.result.schema?.id === filter.schemaId) &&
+        (filter.success === undefined || record.result.success === filter.success) &&
+        (!filter.from || new Date(record.createdAt) >= filter.from) &&
+        (!filter.to || new Date(record.createdAt) <= filter.to),
+      offset: (filter.page - 1) * filter.limit,
+      limit: filter.limit,
+      order: 'desc'
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+}
+
+export const extractionRepository = new ExtractionRepository(
+  createRecordStore<StoredExtraction>('extractions')
+);
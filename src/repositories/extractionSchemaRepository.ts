@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createRecordStore, PagedResult, RecordStore, StoredRecord } from '../storage/recordStore';
+import { FieldSpec } from '../services/extractionSchemas';
+
+export interface ExtractionSchemaVersion {
+  version: number;
+  description: string;
+  fields: FieldSpec[];
+  createdBy: string;
+  createdAt: string;
+}
+
+// A shop's named custom schema; every edit appends a version so past results stay explainable
+export interface StoredExtractionSchema extends StoredRecord {
+  shopId: string;
+  name: string;
+  createdBy: string;
+  currentVersion: number;
+  versions: ExtractionSchemaVersion[];
+}
+
+export interface NewExtractionSchema {
+  shopId: string;
+  name: string;
+  description: string;
+  fields: FieldSpec[];
+  createdBy: string;
+}
+
+export interface SchemaRevision {
+  name?: string;
+  description: string;
+  fields: FieldSpec[];
+  createdBy: string;
+}
+
+export interface ExtractionSchemaFilter {
+  shopId: string;
+  page: number;
+  limit: number;
+}
+
+export class ExtractionSchemaRepository {
+  constructor(private store: RecordStore<StoredExtractionSchema>) {}
+
+  async create(data: NewExtractionSchema): Promise<StoredExtractionSchema> {
+    const now = new Date().toISOString();
+    return this.store.insert({
+      id: `schema_${uuidv4()}`,
+      shopId: data.shopId,
+      name: data.name,
+      createdBy: data.createdBy,
+      currentVersion: 1,
+      versions: [{
+        version: 1,
+        description: data.description,
+        fields: data.fields,
+        createdBy: data.createdBy,
+        createdAt: now
+      }],
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async findById(id: string): Promise<StoredExtractionSchema | null> {
+    return this.store.get(id);
+  }
+
+  async findByName(shopId: string, name: string): Promise<StoredExtractionSchema | null> {
+    const normalized = name.toLowerCase();
+    return this.store.findOne(record => record.shopId === shopId && record.name.toLowerCase() === normalized);
+  }
+
+  async list(filter: ExtractionSchemaFilter): Promise<PagedResult<StoredExtractionSchema>> {
+    return this.store.query({
+      where: record => record.shopId === filter.shopId,
+      offset: (filter.page - 1) * filter.limit,
+      limit: filter.limit,
+      order: 'desc'
+    });
+  }
+
+  async addVersion(id: string, revision: SchemaRevision): Promise<StoredExtractionSchema | null> {
+    const schema = await this.store.get(id);
+    if (!schema) {
+      return null;
+    }
+
+    const version = schema.currentVersion + 1;
+    return this.store.update(id, {
+      ...(revision.name && { name: revision.name }),
+      currentVersion: version,
+      versions: [...schema.versions, {
+        version,
+        description: revision.description,
+        fields: revision.fields,
+        createdBy: revision.createdBy,
+        createdAt: new Date().toISOString()
+      }]
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  static getVersion(schema: StoredExtractionSchema, version?: number): ExtractionSchemaVersion | null {
+    return schema.versions.find(entry => entry.version === (version ?? schema.currentVersion)) || null;
+  }
+}
+
+export const extractionSchemaRepository = new ExtractionSchemaRepository(
+  createRecordStore<StoredExtractionSchema>('extraction_schemas')
+);
@@ -0,0 +1,139 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createRecordStore, RecordStore, StoredRecord } from '../storage/recordStore';
+import { TranscriptionOptions } from '../services/speechToText';
+import { CustomSchema, ExtractionType } from '../services/dataExtraction';
+
+export type JobStatus = 'queued' | 'uploading' | 'transcribing' | 'translating' | 'extracting' | 'done' | 'failed';
+
+export interface JobCallback {
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastError?: string;
+  deliveredAt?: string;
+}
+
+export interface StoredJob extends StoredRecord {
+  shopId: string;
+  userId: string;
+  status: JobStatus;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  options: TranscriptionOptions;
+  extractionType?: ExtractionType;
+  customSchema?: CustomSchema;
+  transcriptionId?: string;
+  extractionId?: string;
+  repairNoteId?: string;
+  error?: string;
+  callback?: JobCallback;
+  history: Array<{ status: JobStatus; at: string }>;
+  completedAt?: string;
+  audioKey: string; // Where the recording waits in the audio store until the job has run
+  attempts: number; // Times a worker has picked the job up
+  workerId?: string; // Worker running the job, for as long as its lease lasts
+  leaseExpiresAt?: string;
+}
+
+export interface NewJob {
+  shopId: string;
+  userId: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  options: TranscriptionOptions;
+  extractionType?: ExtractionType;
+  customSchema?: CustomSchema;
+  callbackUrl?: string;
+  audioKey: string;
+}
+
+const isFinished = (job: StoredJob): boolean => job.status === 'done' || job.status === 'failed';
+
+// Waiting for a worker, or left behind by one that stopped renewing its lease
+const isClaimable = (job: StoredJob, now: Date): boolean =>
+  !isFinished(job) && (!job.leaseExpiresAt || new Date(job.leaseExpiresAt) <= now);
+
+const holdsLease = (job: StoredJob, workerId: string): boolean => job.workerId === workerId && !isFinished(job);
+
+export class JobRepository {
+  constructor(private store: RecordStore<StoredJob>) {}
+
+  async create(data: NewJob & { id?: string }): Promise<StoredJob> {
+    const now = new Date().toISOString();
+    const { callbackUrl, id, ...fields } = data;
+
+    return this.store.insert({
+      id: id || `job_${uuidv4()}`,
+      ...fields,
+      status: 'queued',
+      attempts: 0,
+      callback: callbackUrl ? { url: callbackUrl, status: 'pending', attempts: 0 } : undefined,
+      history: [{ status: 'queued', at: now }],
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async findById(id: string): Promise<StoredJob | null> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Move a job on to a new status, but only while workerId still holds its lease. Null when it does
+   * not: the lease ran out and another worker took the job over, or the job has already finished.
+   */
+  async transition(id: string, workerId: string, status: JobStatus, patch: Partial<StoredJob> = {}): Promise<StoredJob | null> {
+    const now = new Date().toISOString();
+    const finished = status === 'done' || status === 'failed';
+    return this.store.mutate(id, job => holdsLease(job, workerId)
+      ? {
+        ...patch,
+        status,
+        history: [...job.history, { status, at: now }],
+        ...(finished && { completedAt: now, workerId: undefined, leaseExpiresAt: undefined })
+      }
+      : null);
+  }
+
+  /**
+   * Hand the oldest claimable job to a worker. Each candidate is taken with a conditional update,
+   * so when workers race for the same job only one of them gets it.
+   */
+  async claimNext(workerId: string, leaseMs: number): Promise<StoredJob | null> {
+    const { items } = await this.store.query({ where: job => isClaimable(job, new Date()), order: 'asc' });
+    for (const candidate of items) {
+      const claimed = await this.store.mutate(candidate.id, job => {
+        const now = new Date();
+        return isClaimable(job, now)
+          ? { workerId, leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(), attempts: (job.attempts || 0) + 1 }
+          : null;
+      });
+      if (claimed) {
+        return claimed;
+      }
+    }
+    return null;
+  }
+
+  // False when the lease was lost, e.g. another worker took the job over after it expired
+  async renewLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const renewed = await this.store.mutate(id, job =>
+      holdsLease(job, workerId) ? { leaseExpiresAt: new Date(Date.now() + leaseMs).toISOString() } : null
+    );
+    return renewed !== null;
+  }
+
+  // False when workerId no longer holds the job's lease
+  async link(id: string, workerId: string, links: Pick<StoredJob, 'transcriptionId' | 'extractionId' | 'repairNoteId'>): Promise<boolean> {
+    const linked = await this.store.mutate(id, job => holdsLease(job, workerId) ? links : null);
+    return linked !== null;
+  }
+
+  async updateCallback(id: string, callback: JobCallback): Promise<void> {
+    await this.store.update(id, { callback });
+  }
+}
+
+export const jobRepository = new JobRepository(createRecordStore<StoredJob>('jobs'));
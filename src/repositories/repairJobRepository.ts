@@ -0,0 +1,124 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createRecordStore, PagedResult, RecordStore, StoredRecord } from '../storage/recordStore';
+
+export type RepairJobStatus = 'open' | 'closed';
+
+// One value a voice note gave for a field
+export interface FieldObservation {
+  value: unknown;
+  extractionId: string;
+  recordedAt: string;
+  confidence?: number;
+}
+
+export interface MergedField {
+  value: unknown; // The running value after every note so far
+  updatedBy: string; // Extraction that last changed the value
+  history: FieldObservation[]; // Oldest first
+  conflict: boolean; // Notes gave different values for a single-valued field
+}
+
+// A vehicle's repair across check-in, teardown, supplement and delivery notes
+export interface StoredRepairJob extends StoredRecord {
+  shopId: string;
+  userId: string; // Who opened the job
+  jobNumber?: string;
+  vin?: string;
+  status: RepairJobStatus;
+  extractionIds: string[];
+  fields: Record<string, MergedField>;
+}
+
+export interface NewRepairJob {
+  shopId: string;
+  userId: string;
+  jobNumber?: string;
+  vin?: string;
+}
+
+export interface RepairJobFilter {
+  shopId: string;
+  status?: RepairJobStatus;
+  jobNumber?: string;
+  vin?: string;
+  page: number;
+  limit: number;
+}
+
+const sameJobNumber = (a: string | undefined, b: string | undefined): boolean =>
+  Boolean(a && b && a.trim().toLowerCase() === b.trim().toLowerCase());
+
+export class RepairJobRepository {
+  constructor(private store: RecordStore<StoredRepairJob>) {}
+
+  async create(data: NewRepairJob): Promise<StoredRepairJob> {
+    const now = new Date().toISOString();
+    return this.store.insert({
+      id: `rjob_${uuidv4()}`,
+      ...data,
+      status: 'open',
+      extractionIds: [],
+      fields: {},
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async findById(id: string): Promise<StoredRepairJob | null> {
+    return this.store.get(id);
+  }
+
+  // The job number identifies a job more reliably than a VIN, which can be misheard
+  async findByKey(shopId: string, key: { jobNumber?: string; vin?: string }, status?: RepairJobStatus): Promise<StoredRepairJob | null> {
+    const inScope = (record: StoredRepairJob) => record.shopId === shopId && (!status || record.status === status);
+
+    if (key.jobNumber) {
+      const byJobNumber = await this.store.findOne(record => inScope(record) && sameJobNumber(record.jobNumber, key.jobNumber));
+      if (byJobNumber) {
+        return byJobNumber;
+      }
+    }
+    if (key.vin) {
+      return this.store.findOne(record => inScope(record) && record.vin === key.vin);
+    }
+    return null;
+  }
+
+  async findByExtraction(shopId: string, extractionId: string): Promise<StoredRepairJob | null> {
+    return this.store.findOne(record => record.shopId === shopId && record.extractionIds.includes(extractionId));
+  }
+
+  async list(filter: RepairJobFilter): Promise<PagedResult<StoredRepairJob>> {
+    return this.store.query({
+      where: record =>
+        record.shopId === filter.shopId &&
+        (!filter.status || record.status === filter.status) &&
+        (!filter.jobNumber || sameJobNumber(record.jobNumber, filter.jobNumber)) &&
+        (!filter.vin || record.vin === filter.vin.toUpperCase()),
+      offset: (filter.page - 1) * filter.limit,
+      limit: filter.limit,
+      order: 'desc'
+    });
+  }
+
+  async update(id: string, patch: Partial<Omit<StoredRepairJob, 'id' | 'shopId' | 'createdAt' | 'updatedAt'>>): Promise<StoredRepairJob | null> {
+    return this.store.update(id, patch);
+  }
+
+  // Applies the patch only while condition holds for the stored job; null when it no longer does
+  async updateIf(
+    id: string,
+    condition: (current: StoredRepairJob) => boolean,
+    patch: Partial<Omit<StoredRepairJob, 'id' | 'shopId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<StoredRepairJob | null> {
+    return this.store.mutate(id, current => condition(current) ? patch : null);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+}
+
+export const repairJobRepository = new RepairJobRepository(
+  createRecordStore<StoredRepairJob>('repair_jobs')
+);
@@ -0,0 +1,67 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createRecordStore, PagedResult, RecordStore, StoredRecord } from '../storage/recordStore';
+import { ExtractionType } from '../services/dataExtraction';
+
+// One voice note run end to end: the audio's transcription and the record extracted from it
+export interface StoredRepairNote extends StoredRecord {
+  shopId: string;
+  userId: string;
+  transcriptionId: string;
+  extractionId: string;
+  extractionType: ExtractionType;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  model: string;
+  language?: string;
+  success: boolean;
+  processingTime: number;
+}
+
+export type NewRepairNote = Omit<StoredRepairNote, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface RepairNoteFilter {
+  shopId: string;
+  userId?: string;
+  extractionType?: ExtractionType;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+export class RepairNoteRepository {
+  constructor(private store: RecordStore<StoredRepairNote>) {}
+
+  async create(data: NewRepairNote): Promise<StoredRepairNote> {
+    const now = new Date().toISOString();
+    return this.store.insert({
+      id: `note_${uuidv4()}`,
+      ...data,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async findById(id: string): Promise<StoredRepairNote | null> {
+    return this.store.get(id);
+  }
+
+  async list(filter: RepairNoteFilter): Promise<PagedResult<StoredRepairNote>> {
+    return this.store.query({
+      where: record =>
+        record.shopId === filter.shopId &&
+        (!filter.userId || record.userId === filter.userId) &&
+        (!filter.extractionType || record.extractionType === filter.extractionType) &&
+        (!filter.from || new Date(record.createdAt) >= filter.from) &&
+        (!filter.to || new Date(record.createdAt) <= filter.to),
+      offset: (filter.page - 1) * filter.limit,
+      limit: filter.limit,
+      order: 'desc'
+    });
+  }
+}
+
+export const repairNoteRepository = new RepairNoteRepository(
+  createRecordStore<StoredRepairNote>('repair_notes')
+);
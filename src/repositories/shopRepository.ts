@@ -0,0 +1,53 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createRecordStore, RecordStore, StoredRecord } from '../storage/recordStore';
+import { VocabularyTerm } from '../services/vocabulary';
+
+// Shown on printed repair orders and damage reports
+export interface ShopBranding {
+  displayName?: string; // Defaults to the shop name
+  address?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+  accentColor?: string; // #rrggbb
+  footerText?: string; // Terms, warranty or disclaimer printed at the bottom of every page
+}
+
+export interface Shop extends StoredRecord {
+  name: string;
+  extractionProvider?: string; // Falls back to EXTRACTION_PROVIDER when unset
+  extractionModel?: string;
+  laborRate?: number; // Hourly rates used to price estimate lines when the note does not state them
+  refinishRate?: number;
+  branding?: ShopBranding;
+  audioRetentionDays?: number; // Recordings older than this are deleted; falls back to AUDIO_RETENTION_DAYS
+  vocabulary?: VocabularyTerm[]; // Shop glossary added to the built-in trade terms for speech-to-text
+}
+
+export class ShopRepository {
+  constructor(private store: RecordStore<Shop>) {}
+
+  async create(name: string): Promise<Shop> {
+    const now = new Date().toISOString();
+    return this.store.insert({
+      id: `shop_${uuidv4()}`,
+      name,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async findById(id: string): Promise<Shop | null> {
+    return this.store.get(id);
+  }
+
+  async update(id: string, patch: Partial<Omit<Shop, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Shop | null> {
+    return this.store.update(id, patch);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+}
+
+export const shopRepository = new ShopRepository(createRecordStore<Shop>('shops'));
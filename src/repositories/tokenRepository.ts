@@ -0,0 +1,101 @@
+import { createRecordStore, RecordStore, StoredRecord } from '../storage/recordStore';
+
+export interface StoredRefreshToken extends StoredRecord {
+  userId: string;
+  familyId: string; // Shared by every token produced through rotation from one login
+  tokenHash: string;
+  expiresAt: string;
+  revokedAt?: string;
+  replacedBy?: string;
+}
+
+export interface RevokedAccessToken extends StoredRecord {
+  // id is the access token's jti
+  userId: string;
+  expiresAt: string;
+}
+
+export class RefreshTokenRepository {
+  constructor(private store: RecordStore<StoredRefreshToken>) {}
+
+  async create(token: Omit<StoredRefreshToken, 'createdAt' | 'updatedAt'>): Promise<StoredRefreshToken> {
+    const now = new Date().toISOString();
+    return this.store.insert({ ...token, createdAt: now, updatedAt: now });
+  }
+
+  async findById(id: string): Promise<StoredRefreshToken | null> {
+    return this.store.get(id);
+  }
+
+  // Only one caller can rotate a token: false when it was already rotated or revoked
+  async markRotated(id: string, replacedBy: string): Promise<boolean> {
+    const rotated = await this.store.mutate(id, token =>
+      token.revokedAt ? null : { revokedAt: new Date().toISOString(), replacedBy }
+    );
+    return rotated !== null;
+  }
+
+  async revoke(id: string): Promise<void> {
+    await this.store.update(id, { revokedAt: new Date().toISOString() });
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    await this.revokeWhere(token => token.familyId === familyId);
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.revokeWhere(token => token.userId === userId);
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    const { items } = await this.store.query({ where: token => token.userId === userId });
+    await Promise.all(items.map(token => this.store.delete(token.id)));
+  }
+
+  private async revokeWhere(where: (token: StoredRefreshToken) => boolean): Promise<void> {
+    const { items } = await this.store.query({ where: token => !token.revokedAt && where(token) });
+    const now = new Date().toISOString();
+    for (const token of items) {
+      await this.store.update(token.id, { revokedAt: now });
+    }
+  }
+}
+
+export class RevokedTokenRepository {
+  constructor(private store: RecordStore<RevokedAccessToken>) {}
+
+  async revoke(jti: string, userId: string, expiresAt: Date): Promise<void> {
+    if (await this.store.get(jti)) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    await this.store.insert({
+      id: jti,
+      userId,
+      expiresAt: expiresAt.toISOString(),
+      createdAt: now,
+      updatedAt: now
+    });
+    await this.purgeExpired();
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    return (await this.store.get(jti)) !== null;
+  }
+
+  // Entries only need to live as long as the token they block
+  private async purgeExpired(): Promise<void> {
+    const now = new Date();
+    const { items } = await this.store.query({ where: entry => new Date(entry.expiresAt) < now });
+    await Promise.all(items.map(entry => this.store.delete(entry.id)));
+  }
+}
+
+export const refreshTokenRepository = new RefreshTokenRepository(
+  createRecordStore<StoredRefreshToken>('refresh_tokens')
+);
+
+export const revokedTokenRepository = new RevokedTokenRepository(
+  createRecordStore<RevokedAccessToken>('revoked_tokens')
+);
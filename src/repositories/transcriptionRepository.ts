@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createRecordStore, PagedResult, RecordStore, StoredRecord } from '../storage/recordStore';
+import { TranscriptionResult } from '../services/speechToText';
+import { AudioStorageBackend } from '../storage/audioStore';
+
+// Where the recording behind a transcription is kept
+export interface StoredAudio {
+  backend: AudioStorageBackend;
+  key: string;
+  storedAt: string;
+  purgedAt?: string; // Set when the retention policy deleted the recording; the transcript is kept
+}
+
+export interface StoredTranscription extends StoredRecord {
+  shopId: string;
+  userId: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  result: TranscriptionResult;
+  audio?: StoredAudio;
+}
+
+export interface NewTranscription {
+  shopId: string;
+  userId: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  result: TranscriptionResult;
+}
+
+export interface TranscriptionFilter {
+  shopId: string;
+  userId?: string;
+  model?: string;
+  language?: string;
+  from?: Date;
+  to?: Date;
+  search?: string;
+  page: number;
+  limit: number;
+}
+
+export class TranscriptionRepository {
+  constructor(private store: RecordStore<StoredTranscription>) {}
+
+  async create(data: NewTranscription): Promise<StoredTranscription> {
+    const now = new Date().toISOString();
+    return this.store.insert({
+      id: `trn_${uuidv4()}`,
+      ...data,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async findById(id: string): Promise<StoredTranscription | null> {
+    return this.store.get(id);
+  }
+
+  async list(filter: TranscriptionFilter): Promise<PagedResult<StoredTranscription>> {
+    const search = filter.search?.toLowerCase();
+
+    return this.store.query({
+      where: record =>
+        record.shopId === filter.shopId &&
+        (!filter.userId || record.userId === filter.userId) &&
+        (!filter.model || record.result.model === filter.model) &&
+        (!filter.language || record.result.language === filter.language) &&
+        (!filter.from || new Date(record.createdAt) >= filter.from) &&
+        (!filter.to || new Date(record.createdAt) <= filter.to) &&
+        (!search || record.result.text.toLowerCase().includes(search)),
+      offset: (filter.page - 1) * filter.limit,
+      limit: filter.limit,
+      order: 'desc'
+    });
+  }
+
+  async update(id: string, patch: Partial<Pick<StoredTranscription, 'audio' | 'result'>>): Promise<StoredTranscription | null> {
+    return this.store.update(id, patch);
+  }
+
+  // Oldest first, so a purge works through the backlog in retention order
+  async listWithRetainedAudio(shopId?: string): Promise<StoredTranscription[]> {
+    const { items } = await this.store.query({
+      where: record => !!record.audio && !record.audio.purgedAt && (!shopId || record.shopId === shopId),
+      order: 'asc'
+    });
+    return items;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+}
+
+export const transcriptionRepository = new TranscriptionRepository(
+  createRecordStore<StoredTranscription>('transcriptions')
+);
@@ -0,0 +1,31 @@
+import { DuplicateEmailError, UserRepository } from './userRepository';
+import { MemoryRecordStore } from '../storage/recordStore';
+
+describe('UserRepository', () => {
+  let users: UserRepository;
+
+  beforeEach(() => {
+    users = new UserRepository(new MemoryRecordStore());
+  });
+
+  const create = (email = 'tech@example.com') =>
+    users.create({ email, password: 'hash', name: 'Tech', shopId: 'shop-1', role: 'technician' });
+
+  it('moves the token version on once per concurrent increment', async () => {
+    const user = await create();
+
+    await Promise.all(Array.from({ length: 5 }, () => users.incrementTokenVersion(user.id)));
+
+    expect((await users.findById(user.id))?.tokenVersion).toBe(5);
+  });
+
+  it('returns null when incrementing the token version of a missing user', async () => {
+    await expect(users.incrementTokenVersion('user_missing')).resolves.toBeNull();
+  });
+
+  it('refuses a second account with the same email', async () => {
+    await create('Tech@Example.com');
+
+    await expect(create('tech@example.com')).rejects.toBeInstanceOf(DuplicateEmailError);
+  });
+});
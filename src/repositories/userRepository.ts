@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createRecordStore, DuplicateRecordError, RecordStore, StoredRecord } from '../storage/recordStore';
+
+export type UserStatus = 'active' | 'disabled';
+
+export type UserRole = 'technician' | 'estimator' | 'manager' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['technician', 'estimator', 'manager', 'admin'];
+
+export interface User extends StoredRecord {
+  email: string;
+  password: string; // bcrypt hash
+  name: string;
+  shopId: string;
+  role: UserRole;
+  status: UserStatus;
+  tokenVersion: number; // Bumped to invalidate every token issued before it
+  passwordChangedAt?: string;
+  disabledAt?: string;
+}
+
+export interface NewUser {
+  email: string;
+  password: string;
+  name: string;
+  shopId: string;
+  role: UserRole;
+}
+
+export type PublicUser = Omit<User, 'password' | 'tokenVersion'>;
+
+export class DuplicateEmailError extends Error {
+  constructor(email: string) {
+    super(`User with email ${email} already exists`);
+    this.name = 'DuplicateEmailError';
+  }
+}
+
+export class UserRepository {
+  constructor(private store: RecordStore<User>) {}
+
+  // Email uniqueness is enforced by the store itself, so concurrent sign-ups cannot both succeed
+  async create(data: NewUser): Promise<User> {
+    const now = new Date().toISOString();
+    const email = UserRepository.normalizeEmail(data.email);
+    return this.store.insert({
+      id: `user_${uuidv4()}`,
+      email,
+      password: data.password,
+      name: data.name,
+      shopId: data.shopId,
+      role: data.role,
+      status: 'active',
+      tokenVersion: 0,
+      createdAt: now,
+      updatedAt: now
+    }, { unique: user => user.email === email }).catch(error => {
+      throw error instanceof DuplicateRecordError ? new DuplicateEmailError(email) : error;
+    });
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return this.store.get(id);
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const normalized = UserRepository.normalizeEmail(email);
+    return this.store.findOne(user => user.email === normalized);
+  }
+
+  async listByShop(shopId: string): Promise<User[]> {
+    const { items } = await this.store.query({ where: user => user.shopId === shopId, order: 'asc' });
+    return items;
+  }
+
+  async updateRole(id: string, role: UserRole): Promise<User | null> {
+    return this.store.update(id, { role });
+  }
+
+  async updatePassword(id: string, passwordHash: string): Promise<User | null> {
+    return this.store.update(id, {
+      password: passwordHash,
+      passwordChangedAt: new Date().toISOString()
+    });
+  }
+
+  async setStatus(id: string, status: UserStatus): Promise<User | null> {
+    return this.store.update(id, {
+      status,
+      disabledAt: status === 'disabled' ? new Date().toISOString() : undefined
+    });
+  }
+
+  // One atomic step, so concurrent sign-outs each move the version on instead of writing the same value
+  async incrementTokenVersion(id: string): Promise<User | null> {
+    return this.store.mutate(id, user => ({ tokenVersion: (user.tokenVersion || 0) + 1 }));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+
+  // Strip credentials before a user leaves the server
+  static toPublic(user: User): PublicUser {
+    const { password, tokenVersion, ...publicUser } = user;
+    return publicUser;
+  }
+
+  static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
+
+export const userRepository = new UserRepository(createRecordStore<User>('users'));
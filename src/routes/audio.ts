@@ -0,0 +1,141 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest, authMiddleware, canAccessRecord } from '../middleware/auth';
+import { AudioRetentionService } from '../services/audioRetention';
+import { StoredTranscription, transcriptionRepository } from '../repositories/transcriptionRepository';
+
+const router = Router();
+
+const MAX_LINK_SECONDS = 7 * 24 * 60 * 60;
+
+// Validation schemas
+const linkRequestSchema = z.object({
+  expiresIn: z.number().int().min(60).max(MAX_LINK_SECONDS)
+    .default(Math.min(parseInt(process.env.AUDIO_LINK_TTL_SECONDS || '900') || 900, MAX_LINK_SECONDS))
+});
+
+const signedLinkQuerySchema = z.object({
+  expires: z.coerce.number().int(),
+  signature: z.string().regex(/^[0-9a-f]{64}$/)
+});
+
+// Streams the recording, honouring a single byte range so players can seek
+const sendAudio = async (
+  req: Request,
+  res: Response,
+  transcription: StoredTranscription,
+  disposition: 'inline' | 'attachment'
+): Promise<void> => {
+  if (transcription.audio?.purgedAt) {
+    res.status(410).json({ error: 'Audio was deleted under the shop retention policy' });
+    return;
+  }
+
+  const size = transcription.fileSize;
+  const ranges = req.range(size, { combine: true });
+  if (ranges === -1) {
+    res.status(416).setHeader('Content-Range', `bytes */${size}`);
+    res.json({ error: 'Requested range not satisfiable' });
+    return;
+  }
+  const range = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1 ? ranges[0] : undefined;
+
+  const stream = await new AudioRetentionService().open(transcription, range);
+  if (!stream) {
+    res.status(404).json({ error: 'Audio not found' });
+    return;
+  }
+
+  res.status(range ? 206 : 200)
+    .type(transcription.mimeType)
+    .setHeader('Accept-Ranges', 'bytes')
+    .setHeader('Content-Length', String(range ? range.end - range.start + 1 : size))
+    .setHeader('Content-Disposition', `${disposition}; filename="${transcription.fileName.replace(/["\\\r\n]/g, '_')}"`);
+  if (range) {
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+  }
+
+  stream.on('error', error => {
+    console.error(`Audio stream for transcription ${transcription.id} failed:`, error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
+
+// GET /api/audio/:transcriptionId
+router.get('/:transcriptionId', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const transcription = await transcriptionRepository.findById(req.params.transcriptionId);
+    if (!transcription || !canAccessRecord(req.user!, transcription)) {
+      res.status(404).json({ error: 'Transcription not found' });
+      return;
+    }
+
+    await sendAudio(req, res, transcription, 'inline');
+
+  } catch (error) {
+    console.error('Audio playback error:', error);
+    res.status(500).json({ error: 'Failed to play audio' });
+  }
+});
+
+// POST /api/audio/:transcriptionId/link
+router.post('/:transcriptionId/link', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = linkRequestSchema.parse(req.body ?? {});
+
+    const transcription = await transcriptionRepository.findById(req.params.transcriptionId);
+    if (!transcription || !canAccessRecord(req.user!, transcription)) {
+      res.status(404).json({ error: 'Transcription not found' });
+      return;
+    }
+
+    if (!transcription.audio || transcription.audio.purgedAt) {
+      res.status(404).json({ error: 'Audio not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      ...AudioRetentionService.createSignedLink(transcription.id, validatedData.expiresIn)
+    });
+
+  } catch (error) {
+    console.error('Audio link error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid audio link request',
+        details: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to create audio link' });
+  }
+});
+
+// GET /api/audio/:transcriptionId/download (signed link, no login required)
+router.get('/:transcriptionId/download', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = signedLinkQuerySchema.safeParse(req.query);
+    if (!query.success || !AudioRetentionService.verifySignedLink(req.params.transcriptionId, query.data.expires, query.data.signature)) {
+      res.status(403).json({ error: 'Invalid or expired audio link' });
+      return;
+    }
+
+    const transcription = await transcriptionRepository.findById(req.params.transcriptionId);
+    if (!transcription) {
+      res.status(404).json({ error: 'Transcription not found' });
+      return;
+    }
+
+    await sendAudio(req, res, transcription, 'attachment');
+
+  } catch (error) {
+    console.error('Audio download error:', error);
+    res.status(500).json({ error: 'Failed to download audio' });
+  }
+});
+
+export { router as audioRoutes };
@@ -1,7 +1,11 @@
 import { Router, Request, Response } from 'express';
-import jwt, { SignOptions } from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { DuplicateEmailError, userRepository, UserRepository } from '../repositories/userRepository';
+import { shopRepository } from '../repositories/shopRepository';
+import { refreshTokenRepository } from '../repositories/tokenRepository';
+import { TokenService, TokenError } from '../services/tokenService';
 
 const router = Router();
 
@@ -9,7 +13,8 @@ const router = Router();
 const registerSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
-  name: z.string().min(2, 'Name must be at least 2 characters')
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  shopName: z.string().min(2, 'Shop name must be at least 2 characters').optional()
 });
 
 const loginSchema = z.object({
@@ -17,28 +22,29 @@ const loginSchema = z.object({
   password: z.string().min(1, 'Password is required')
 });
 
-// Simple in-memory user store (replace with database later)
-interface User {
-  id: string;
-  email: string;
-  password: string;
-  name: string;
-  createdAt: Date;
-}
-
-const users: User[] = [];
-
-// Helper function to generate JWT
-const generateToken = (user: Omit<User, 'password'>): string => {
-  if (!process.env.JWT_SECRET) {
-    throw new Error('JWT_SECRET environment variable is not set');
-  }
-  
-  return jwt.sign(
-    { id: user.id, email: user.email },
-    process.env.JWT_SECRET as string,
-    { expiresIn: process.env.JWT_EXPIRES_IN || '24h' } as SignOptions
-  );
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(8, 'Password must be at least 8 characters')
+});
+
+const confirmPasswordSchema = z.object({
+  password: z.string().min(1, 'Password is required')
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required')
+});
+
+const logoutSchema = z.object({
+  refreshToken: z.string().optional()
+});
+
+// Shared handling for Zod validation failures in auth routes
+const sendValidationError = (res: Response, error: z.ZodError): void => {
+  res.status(400).json({
+    error: 'Validation failed',
+    details: error.errors
+  });
 };
 
 // POST /api/auth/register
@@ -47,7 +53,7 @@ router.post('/register', async (req: Request, res: Response): Promise<void> => {
     const validatedData = registerSchema.parse(req.body);
     
     // Check if user already exists
-    const existingUser = users.find(u => u.email === validatedData.email);
+    const existingUser = await userRepository.findByEmail(validatedData.email);
     if (existingUser) {
       res.status(400).json({ error: 'User with this email already exists' });
       return;
@@ -56,40 +62,48 @@ router.post('/register', async (req: Request, res: Response): Promise<void> => {
     // Hash password
     const hashedPassword = await bcrypt.hash(validatedData.password, 12);
     
-    // Create new user
-    const newUser: User = {
-      id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      email: validatedData.email,
-      password: hashedPassword,
-      name: validatedData.name,
-      createdAt: new Date()
-    };
-    
-    users.push(newUser);
+    // Self-registration opens a new shop; further members are added by its managers
+    const shop = await shopRepository.create(validatedData.shopName || `${validatedData.name}'s Shop`);
+
+    // Create new user, removing the shop again if that fails (e.g. a concurrent sign-up took the email)
+    let newUser;
+    try {
+      newUser = await userRepository.create({
+        email: validatedData.email,
+        password: hashedPassword,
+        name: validatedData.name,
+        shopId: shop.id,
+        role: 'admin'
+      });
+    } catch (error) {
+      await shopRepository.delete(shop.id).catch(cleanupError => {
+        console.error(`Failed to remove shop ${shop.id} after registration failed:`, cleanupError);
+      });
+      throw error;
+    }
     
-    // Generate token
-    const token = generateToken({
-      id: newUser.id,
-      email: newUser.email,
-      name: newUser.name,
-      createdAt: newUser.createdAt
-    });
+    // Generate tokens
+    const tokens = await new TokenService().issueTokens(newUser);
     
     res.status(201).json({
       message: 'User registered successfully',
-      token,
+      ...tokens,
       user: {
         id: newUser.id,
         email: newUser.email,
-        name: newUser.name
+        name: newUser.name,
+        shopId: newUser.shopId,
+        role: newUser.role
       }
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
-      res.status(400).json({
-        error: 'Validation failed',
-        details: error.errors
-      });
+      sendValidationError(res, error);
+      return;
+    }
+
+    if (error instanceof DuplicateEmailError) {
+      res.status(400).json({ error: 'User with this email already exists' });
       return;
     }
     
@@ -104,7 +118,7 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
     const validatedData = loginSchema.parse(req.body);
     
     // Find user
-    const user = users.find(u => u.email === validatedData.email);
+    const user = await userRepository.findByEmail(validatedData.email);
     if (!user) {
       res.status(401).json({ error: 'Invalid email or password' });
       return;
@@ -116,30 +130,29 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
       res.status(401).json({ error: 'Invalid email or password' });
       return;
     }
+
+    if (user.status !== 'active') {
+      res.status(403).json({ error: 'Account is disabled' });
+      return;
+    }
     
-    // Generate token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      createdAt: user.createdAt
-    });
+    // Generate tokens
+    const tokens = await new TokenService().issueTokens(user);
     
     res.status(200).json({
       message: 'Login successful',
-      token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
-        name: user.name
+        name: user.name,
+        shopId: user.shopId,
+        role: user.role
       }
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
-      res.status(400).json({
-        error: 'Validation failed',
-        details: error.errors
-      });
+      sendValidationError(res, error);
       return;
     }
     
@@ -148,4 +161,168 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
-export { router as authRoutes }; 
\ No newline at end of file
+// POST /api/auth/refresh
+router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validatedData = refreshSchema.parse(req.body);
+
+    const tokens = await new TokenService().refresh(validatedData.refreshToken);
+
+    res.status(200).json({
+      message: 'Token refreshed',
+      ...tokens
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    if (error instanceof TokenError) {
+      res.status(401).json({ error: error.message });
+      return;
+    }
+
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Token refresh failed' });
+  }
+});
+
+// POST /api/auth/logout
+router.post('/logout', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = logoutSchema.parse(req.body);
+
+    await new TokenService().revokeSession(req.token!, validatedData.refreshToken);
+
+    res.status(200).json({ message: 'Logged out' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// POST /api/auth/logout-all
+router.post('/logout-all', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await new TokenService().revokeAllSessions(req.user!.id);
+
+    res.status(200).json({ message: 'All sessions revoked' });
+  } catch (error) {
+    console.error('Logout-all error:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+// GET /api/auth/me
+router.get('/me', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = await userRepository.findById(req.user!.id);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      user: UserRepository.toPublic(user)
+    });
+  } catch (error) {
+    console.error('Profile retrieval error:', error);
+    res.status(500).json({ error: 'Failed to retrieve profile' });
+  }
+});
+
+// POST /api/auth/change-password
+router.post('/change-password', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = changePasswordSchema.parse(req.body);
+
+    const user = await userRepository.findById(req.user!.id);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    const isPasswordValid = await bcrypt.compare(validatedData.currentPassword, user.password);
+    if (!isPasswordValid) {
+      res.status(401).json({ error: 'Current password is incorrect' });
+      return;
+    }
+
+    const hashedPassword = await bcrypt.hash(validatedData.newPassword, 12);
+    await userRepository.updatePassword(user.id, hashedPassword);
+
+    // Sessions opened with the old password must not survive the change
+    await new TokenService().revokeAllSessions(user.id);
+
+    res.status(200).json({ message: 'Password changed successfully. Please log in again.' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    console.error('Password change error:', error);
+    res.status(500).json({ error: 'Password change failed' });
+  }
+});
+
+// POST /api/auth/disable
+router.post('/disable', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = confirmPasswordSchema.parse(req.body);
+
+    const user = await userRepository.findById(req.user!.id);
+    if (!user || !(await bcrypt.compare(validatedData.password, user.password))) {
+      res.status(401).json({ error: 'Password is incorrect' });
+      return;
+    }
+
+    await userRepository.setStatus(user.id, 'disabled');
+    await new TokenService().revokeAllSessions(user.id);
+
+    res.status(200).json({ message: 'Account disabled' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    console.error('Account disable error:', error);
+    res.status(500).json({ error: 'Failed to disable account' });
+  }
+});
+
+// DELETE /api/auth/me
+router.delete('/me', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = confirmPasswordSchema.parse(req.body);
+
+    const user = await userRepository.findById(req.user!.id);
+    if (!user || !(await bcrypt.compare(validatedData.password, user.password))) {
+      res.status(401).json({ error: 'Password is incorrect' });
+      return;
+    }
+
+    await refreshTokenRepository.deleteAllForUser(user.id);
+    await userRepository.delete(user.id);
+
+    res.status(200).json({ message: 'Account deleted' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      sendValidationError(res, error);
+      return;
+    }
+
+    console.error('Account deletion error:', error);
+    res.status(500).json({ error: 'Failed to delete account' });
+  }
+});
+
+export { router as authRoutes };
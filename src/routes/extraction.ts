@@ -1,57 +1,243 @@
-import { Router, Request, Response } from 'express';
+import { Router, Response } from 'express';
 import { z } from 'zod';
-// import { AuthenticatedRequest } from '../middleware/auth'; // Removed for testing
-import { DataExtractionService } from '../services/dataExtraction';
+import { AuthenticatedRequest, AuthenticatedUser, canAccessRecord, getAccessScope, requireRole } from '../middleware/auth';
+import { CustomSchema, DataExtractionService } from '../services/dataExtraction';
+import { EXTRACTION_TEMPLATES, FieldSpec, getTemplateFields, toFieldDescriptor } from '../services/extractionSchemas';
+import { TranscriptionSegment } from '../services/speechToText';
+import { extractionSource } from '../services/translation';
+import { hasExtractionProvider, listExtractionProviders } from '../services/extractionProviders/registry';
+import { BMS_DOCUMENTS, EXPORT_FORMATS, exportExtraction } from '../services/extractionExport';
+import { RepairJobService } from '../services/repairJobs';
+import { REPORT_DOCUMENTS, REPORT_FORMATS, buildReportModel, renderReportHtml, renderReportPdf } from '../services/repairOrderReport';
+import { extractionRepository } from '../repositories/extractionRepository';
+import { repairJobRepository } from '../repositories/repairJobRepository';
+import { shopRepository } from '../repositories/shopRepository';
+import { transcriptionRepository } from '../repositories/transcriptionRepository';
+import {
+  ExtractionSchemaRepository,
+  StoredExtractionSchema,
+  extractionSchemaRepository
+} from '../repositories/extractionSchemaRepository';
 
 const router = Router();
 
 // Validation schemas
-const extractionRequestSchema = z.object({
-  transcription: z.string().min(10, 'Transcription text must be at least 10 characters'),
-  extractionType: z.enum(['repair_details', 'parts_inventory', 'labor_hours', 'customer_info', 'damage_assessment', 'custom']).default('repair_details'),
+const providerSchema = z.object({
+  provider: z.string().refine(hasExtractionProvider, { message: 'Unknown extraction provider' }).optional(),
+  model: z.string().min(1).optional()
+});
+
+const schemaReferenceSchema = providerSchema.extend({
   customSchema: z.object({
     fields: z.array(z.string()),
     description: z.string()
-  }).optional()
+  }).optional(),
+  schemaId: z.string().optional(),
+  schemaVersion: z.number().int().min(1).optional()
 });
 
-const batchExtractionSchema = z.object({
+const noInlineAndSavedSchema = (data: z.infer<typeof schemaReferenceSchema>) => !(data.customSchema && data.schemaId);
+const inlineAndSavedSchemaError = { message: 'Provide either customSchema or schemaId, not both', path: ['schemaId'] };
+
+const extractionRequestSchema = schemaReferenceSchema.extend({
+  transcription: z.string().min(10, 'Transcription text must be at least 10 characters'),
+  transcriptionId: z.string().optional(),
+  repairJobId: z.string().optional(),
+  extractionType: z.enum(['repair_details', 'parts_inventory', 'labor_hours', 'customer_info', 'damage_assessment', 'custom']).default('repair_details')
+}).refine(noInlineAndSavedSchema, inlineAndSavedSchemaError);
+
+const batchExtractionSchema = schemaReferenceSchema.extend({
   transcriptions: z.array(z.object({
     id: z.string(),
     text: z.string().min(10)
   })).min(1).max(10), // Limit batch processing to 10 items
-  extractionType: z.enum(['repair_details', 'parts_inventory', 'labor_hours', 'customer_info', 'damage_assessment', 'custom']).default('repair_details'),
-  customSchema: z.object({
-    fields: z.array(z.string()),
-    description: z.string()
-  }).optional()
+  extractionType: z.enum(['repair_details', 'parts_inventory', 'labor_hours', 'customer_info', 'damage_assessment', 'custom']).default('repair_details')
+}).refine(noInlineAndSavedSchema, inlineAndSavedSchemaError);
+
+const fieldNameSchema = z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]{0,63}$/, 'Field names must start with a letter and contain only letters, digits and underscores');
+
+const baseFieldSchema = z.object({
+  name: fieldNameSchema,
+  type: z.enum(['string', 'number', 'integer', 'boolean', 'enum', 'string[]']),
+  description: z.string().max(500).default(''),
+  required: z.boolean().default(false),
+  values: z.array(z.string().min(1)).min(1).optional(),
+  min: z.number().optional(),
+  max: z.number().optional()
 });
 
+const schemaFieldSchema = baseFieldSchema.extend({
+  type: z.enum(['string', 'number', 'integer', 'boolean', 'enum', 'string[]', 'object[]']),
+  items: z.array(baseFieldSchema).min(1).optional()
+}).superRefine((field, ctx) => {
+  if (field.type === 'enum' && !field.values) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enum fields need allowed values', path: ['values'] });
+  }
+  if (field.type === 'object[]' && !field.items) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'object[] fields need item fields', path: ['items'] });
+  }
+  if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'min cannot be greater than max', path: ['min'] });
+  }
+});
+
+const schemaDefinitionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).default(''),
+  fields: z.array(schemaFieldSchema).min(1).max(100)
+}).refine(
+  data => new Set(data.fields.map(field => field.name)).size === data.fields.length,
+  { message: 'Field names must be unique', path: ['fields'] }
+);
+
+const schemaListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+const schemaVersionQuerySchema = z.object({
+  version: z.coerce.number().int().min(1).optional()
+});
+
+const historyQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  extractionType: z.enum(['repair_details', 'parts_inventory', 'labor_hours', 'customer_info', 'damage_assessment', 'custom']).optional(),
+  transcriptionId: z.string().optional(),
+  schemaId: z.string().optional(),
+  userId: z.string().optional(),
+  success: z.enum(['true', 'false']).transform(val => val === 'true').optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('json'),
+  document: z.enum(BMS_DOCUMENTS).default('estimate')
+});
+
+const reportQuerySchema = z.object({
+  format: z.enum(REPORT_FORMATS).default('pdf'),
+  document: z.enum(REPORT_DOCUMENTS).default('repair_order')
+});
+
+const toSchemaSummary = (schema: StoredExtractionSchema) => {
+  const current = ExtractionSchemaRepository.getVersion(schema)!;
+  return {
+    id: schema.id,
+    name: schema.name,
+    description: current.description,
+    version: schema.currentVersion,
+    fields: current.fields.map(toFieldDescriptor),
+    createdBy: schema.createdBy,
+    createdAt: schema.createdAt,
+    updatedAt: schema.updatedAt
+  };
+};
+
+// Resolve a saved shop schema into the typed custom schema the extractor expects
+const resolveSavedSchema = async (
+  user: AuthenticatedUser,
+  schemaId: string,
+  version?: number
+): Promise<CustomSchema | null> => {
+  const schema = await extractionSchemaRepository.findById(schemaId);
+  if (!schema || schema.shopId !== user.shopId) {
+    return null;
+  }
+
+  const entry = ExtractionSchemaRepository.getVersion(schema, version);
+  if (!entry) {
+    return null;
+  }
+
+  return {
+    description: entry.description,
+    fields: entry.fields,
+    source: { id: schema.id, name: schema.name, version: entry.version }
+  };
+};
+
 // POST /api/extraction/extract
-router.post('/extract', async (req: Request, res: Response): Promise<void> => {
+router.post('/extract', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     // Validate request data
     const validatedData = extractionRequestSchema.parse(req.body);
+
+    let customSchema: CustomSchema | undefined = validatedData.customSchema;
+    if (validatedData.schemaId) {
+      const savedSchema = await resolveSavedSchema(req.user!, validatedData.schemaId, validatedData.schemaVersion);
+      if (!savedSchema) {
+        res.status(404).json({ error: 'Extraction schema not found' });
+        return;
+      }
+      customSchema = savedSchema;
+    }
+    const extractionType = validatedData.schemaId ? 'custom' : validatedData.extractionType;
+
+    // A linked transcription lets field evidence point at audio timestamps
+    let transcriptionText = validatedData.transcription;
+    let segments: TranscriptionSegment[] | undefined;
+    if (validatedData.transcriptionId) {
+      const transcriptionRecord = await transcriptionRepository.findById(validatedData.transcriptionId);
+      if (!transcriptionRecord || !canAccessRecord(req.user!, transcriptionRecord)) {
+        res.status(404).json({ error: 'Transcription not found' });
+        return;
+      }
+      segments = transcriptionRecord.result.segments;
+
+      // Sending back the original text of a translated recording extracts from its English version
+      if (transcriptionRecord.result.translation && transcriptionText.trim() === transcriptionRecord.result.text.trim()) {
+        ({ text: transcriptionText, segments } = extractionSource(transcriptionRecord.result));
+      }
+    }
+
+    if (validatedData.repairJobId) {
+      const repairJob = await repairJobRepository.findById(validatedData.repairJobId);
+      if (!repairJob || repairJob.shopId !== req.user!.shopId) {
+        res.status(404).json({ error: 'Repair job not found' });
+        return;
+      }
+    }
     
     // Initialize data extraction service
-    const extractionService = new DataExtractionService();
+    const extractionService = await DataExtractionService.forShop(req.user!.shopId, {
+      provider: validatedData.provider,
+      model: validatedData.model
+    });
     
     // Perform data extraction
     const extractedData = await extractionService.extractData({
-      transcription: validatedData.transcription,
-      extractionType: validatedData.extractionType,
-      customSchema: validatedData.customSchema,
-      userId: 'test-user' // Hardcoded for testing
+      transcription: transcriptionText,
+      extractionType,
+      customSchema,
+      segments,
+      userId: req.user!.id
+    });
+
+    const record = await extractionRepository.create({
+      shopId: req.user!.shopId,
+      userId: req.user!.id,
+      transcriptionId: validatedData.transcriptionId,
+      transcription: transcriptionText,
+      extractionType,
+      result: extractedData
     });
 
+    // Without an explicit job the note is filed by the job number or VIN it mentions
+    const repairJob = await new RepairJobService().linkExtraction(record, validatedData.repairJobId);
+
           res.status(200).json({
         success: true,
+        id: record.id,
         extractedData,
         metadata: {
-          extractionType: validatedData.extractionType,
-          transcriptionLength: validatedData.transcription.length,
+          extractionType,
+          schema: extractedData.schema,
+          repairJobId: repairJob?.id,
+          transcriptionLength: transcriptionText.length,
           timestamp: new Date().toISOString(),
-          userId: 'test-user'
+          userId: req.user!.id
         }
       });
 
@@ -76,31 +262,58 @@ router.post('/extract', async (req: Request, res: Response): Promise<void> => {
 });
 
 // POST /api/extraction/batch
-router.post('/batch', async (req: Request, res: Response): Promise<void> => {
+router.post('/batch', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
 
     // Validate batch request data
     const validatedData = batchExtractionSchema.parse(req.body);
+
+    let customSchema: CustomSchema | undefined = validatedData.customSchema;
+    if (validatedData.schemaId) {
+      const savedSchema = await resolveSavedSchema(req.user!, validatedData.schemaId, validatedData.schemaVersion);
+      if (!savedSchema) {
+        res.status(404).json({ error: 'Extraction schema not found' });
+        return;
+      }
+      customSchema = savedSchema;
+    }
+    const extractionType = validatedData.schemaId ? 'custom' : validatedData.extractionType;
     
     // Initialize data extraction service
-    const extractionService = new DataExtractionService();
+    const extractionService = await DataExtractionService.forShop(req.user!.shopId, {
+      provider: validatedData.provider,
+      model: validatedData.model
+    });
     
     // Perform batch data extraction
     const batchResults = await extractionService.extractDataBatch({
       transcriptions: validatedData.transcriptions,
-      extractionType: validatedData.extractionType,
-      customSchema: validatedData.customSchema,
-      userId: 'test-user'
+      extractionType,
+      customSchema,
+      userId: req.user!.id
     });
 
+    const textById = new Map(validatedData.transcriptions.map(item => [item.id, item.text]));
+    const storedResults = await Promise.all(batchResults.map(async (item) => {
+      const record = await extractionRepository.create({
+        shopId: req.user!.shopId,
+        userId: req.user!.id,
+        transcription: textById.get(item.id) || '',
+        extractionType,
+        result: item.result
+      });
+      return { ...item, recordId: record.id };
+    }));
+
     res.status(200).json({
       success: true,
-      results: batchResults,
+      results: storedResults,
       metadata: {
-        extractionType: validatedData.extractionType,
+        extractionType,
+        schema: customSchema?.source,
         batchSize: validatedData.transcriptions.length,
         timestamp: new Date().toISOString(),
-        userId: 'test-user'
+        userId: req.user!.id
       }
     });
 
@@ -124,58 +337,357 @@ router.post('/batch', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// GET /api/extraction/providers
+router.get('/providers', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    providers: listExtractionProviders()
+  });
+});
+
 // GET /api/extraction/schemas
-router.get('/schemas', async (req: Request, res: Response): Promise<void> => {
+router.get('/schemas', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
 
-    // Return comprehensive extraction schema (all extraction types use the same comprehensive schema now)
+    const templates = Object.fromEntries(
+      Object.entries(EXTRACTION_TEMPLATES).map(([type, template]) => [
+        type,
+        {
+          description: template.description,
+          categories: Object.fromEntries(
+            Object.entries(template.categories).map(([category, fields]) => [category, fields.map(toFieldDescriptor)])
+          ),
+          total_fields: getTemplateFields(template).length
+        }
+      ])
+    );
+
     const schemas = {
-      comprehensive: {
-        description: 'Extract all available automotive repair and assessment information',
-        categories: {
-          customer_information: ['customer_name', 'contact_info', 'service_requests'],
-          vehicle_information: ['vin', 'vehicle_type', 'type', 'year', 'make', 'model', 'body_style', 'engine', 'interior_color', 'exterior_color', 'paint_code', 'trim_code', 'license_plate', 'license_state', 'license_expiration', 'job_number', 'production_date', 'mileage_in', 'mileage_out', 'fuel_level'],
-          damage_assessment: ['repairable_condition', 'primary_impact', 'secondary_impact', 'drivable_status', 'impact_notes', 'prior_damage_notes', 'problem_description', 'diagnosis'],
-          repair_work: ['repairs_performed', 'labor_type', 'tasks_performed', 'time_per_task', 'total_hours', 'labor_time', 'difficulty_level', 'technician_notes'],
-          parts_operations: ['parts_used', 'part_numbers', 'part_descriptions', 'quantities', 'suppliers', 'costs', 'installation_notes', 'paint_needed', 'operation_notes', 'estimate_line', 'operation_type', 'operation_description', 'quantity', 'unit_price', 'estimated_total'],
-          recommendations: ['recommendations']
-        },
-        total_fields: 47
-      },
+      ...templates,
       custom: {
-        description: 'Define your own extraction schema',
+        description: 'Define your own extraction schema, inline or saved for the shop',
         fields: ['custom_fields_defined_by_user']
       }
     };
 
+    const query = schemaListQuerySchema.parse(req.query);
+    const { items, total } = await extractionSchemaRepository.list({ ...query, shopId: req.user!.shopId });
+
     res.status(200).json({
       success: true,
       schemas,
+      savedSchemas: items.map(toSchemaSummary),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit)
+      },
       message: 'Available extraction schemas'
     });
 
   } catch (error) {
     console.error('Schema retrieval error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid schema query',
+        details: error.errors
+      });
+      return;
+    }
+
     res.status(500).json({ error: 'Failed to retrieve extraction schemas' });
   }
 });
 
+// POST /api/extraction/schemas
+router.post('/schemas', requireRole('estimator', 'manager', 'admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = schemaDefinitionSchema.parse(req.body);
+
+    const existing = await extractionSchemaRepository.findByName(req.user!.shopId, validatedData.name);
+    if (existing) {
+      res.status(400).json({ error: 'An extraction schema with this name already exists' });
+      return;
+    }
+
+    const schema = await extractionSchemaRepository.create({
+      shopId: req.user!.shopId,
+      name: validatedData.name,
+      description: validatedData.description,
+      fields: validatedData.fields as FieldSpec[],
+      createdBy: req.user!.id
+    });
+
+    res.status(201).json({
+      success: true,
+      schema: toSchemaSummary(schema)
+    });
+
+  } catch (error) {
+    console.error('Schema creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid extraction schema',
+        details: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to create extraction schema' });
+  }
+});
+
+// GET /api/extraction/schemas/:schemaId
+router.get('/schemas/:schemaId', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const query = schemaVersionQuerySchema.parse(req.query);
+
+    const schema = await extractionSchemaRepository.findById(req.params.schemaId);
+    if (!schema || schema.shopId !== req.user!.shopId) {
+      res.status(404).json({ error: 'Extraction schema not found' });
+      return;
+    }
+
+    const entry = ExtractionSchemaRepository.getVersion(schema, query.version);
+    if (!entry) {
+      res.status(404).json({ error: `Version ${query.version} of this schema does not exist` });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      schema: {
+        ...toSchemaSummary(schema),
+        description: entry.description,
+        version: entry.version,
+        fields: entry.fields.map(toFieldDescriptor),
+        currentVersion: schema.currentVersion,
+        versions: schema.versions.map(({ version, createdBy, createdAt }) => ({ version, createdBy, createdAt }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Schema retrieval error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid schema query',
+        details: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to retrieve extraction schema' });
+  }
+});
+
+// PUT /api/extraction/schemas/:schemaId
+router.put('/schemas/:schemaId', requireRole('estimator', 'manager', 'admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = schemaDefinitionSchema.parse(req.body);
+
+    const schema = await extractionSchemaRepository.findById(req.params.schemaId);
+    if (!schema || schema.shopId !== req.user!.shopId) {
+      res.status(404).json({ error: 'Extraction schema not found' });
+      return;
+    }
+
+    const sameName = await extractionSchemaRepository.findByName(req.user!.shopId, validatedData.name);
+    if (sameName && sameName.id !== schema.id) {
+      res.status(400).json({ error: 'An extraction schema with this name already exists' });
+      return;
+    }
+
+    // Edits never overwrite: results extracted with earlier versions keep pointing at them
+    const updated = await extractionSchemaRepository.addVersion(schema.id, {
+      name: validatedData.name,
+      description: validatedData.description,
+      fields: validatedData.fields as FieldSpec[],
+      createdBy: req.user!.id
+    });
+
+    res.status(200).json({
+      success: true,
+      schema: toSchemaSummary(updated!)
+    });
+
+  } catch (error) {
+    console.error('Schema update error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid extraction schema',
+        details: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to update extraction schema' });
+  }
+});
+
+// DELETE /api/extraction/schemas/:schemaId
+router.delete('/schemas/:schemaId', requireRole('estimator', 'manager', 'admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const schema = await extractionSchemaRepository.findById(req.params.schemaId);
+    if (!schema || schema.shopId !== req.user!.shopId) {
+      res.status(404).json({ error: 'Extraction schema not found' });
+      return;
+    }
+
+    await extractionSchemaRepository.delete(schema.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Extraction schema deleted'
+    });
+
+  } catch (error) {
+    console.error('Schema deletion error:', error);
+    res.status(500).json({ error: 'Failed to delete extraction schema' });
+  }
+});
+
 // GET /api/extraction/history
-router.get('/history', async (req: Request, res: Response): Promise<void> => {
+router.get('/history', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
 
-    // TODO: Implement extraction history retrieval from database
-    // For now, return empty array
+    const query = historyQuerySchema.parse(req.query);
+
+    const { items, total } = await extractionRepository.list({
+      ...query,
+      ...getAccessScope(req.user!)
+    });
+
     res.status(200).json({
       success: true,
-      extractions: [],
-      message: 'Extraction history not yet implemented'
+      extractions: items,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit)
+      }
     });
 
   } catch (error) {
     console.error('History retrieval error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid history query',
+        details: error.errors
+      });
+      return;
+    }
+
     res.status(500).json({ error: 'Failed to retrieve extraction history' });
   }
 });
 
+// GET /api/extraction/:id/export
+router.get('/:id/export', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const query = exportQuerySchema.parse(req.query);
+
+    const record = await extractionRepository.findById(req.params.id);
+    if (!record || !canAccessRecord(req.user!, record)) {
+      res.status(404).json({ error: 'Extraction not found' });
+      return;
+    }
+
+    if (!record.result.success) {
+      res.status(400).json({ error: 'Only successful extractions can be exported' });
+      return;
+    }
+
+    const shop = await shopRepository.findById(record.shopId);
+    const file = exportExtraction(record, shop, query);
+
+    res.status(200)
+      .type(file.contentType)
+      .attachment(file.filename)
+      .send(file.body);
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid export query',
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Extraction export error:', error);
+    res.status(500).json({ error: 'Failed to export extraction' });
+  }
+});
+
+// GET /api/extraction/:id/report
+router.get('/:id/report', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const query = reportQuerySchema.parse(req.query);
+
+    const record = await extractionRepository.findById(req.params.id);
+    if (!record || !canAccessRecord(req.user!, record)) {
+      res.status(404).json({ error: 'Extraction not found' });
+      return;
+    }
+
+    if (!record.result.success) {
+      res.status(400).json({ error: 'Only successful extractions can be printed' });
+      return;
+    }
+
+    const shop = await shopRepository.findById(record.shopId);
+    const model = buildReportModel(record, shop, query.document);
+
+    // The HTML preview opens in the browser; the PDF is offered inline so it can be viewed or saved
+    if (query.format === 'html') {
+      res.status(200).type('html').send(renderReportHtml(model));
+      return;
+    }
+
+    res.status(200)
+      .type('application/pdf')
+      .setHeader('Content-Disposition', `inline; filename="${query.document}-${record.id}.pdf"`)
+      .send(renderReportPdf(model));
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid report query',
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Report rendering error:', error);
+    res.status(500).json({ error: 'Failed to render report' });
+  }
+});
+
+// GET /api/extraction/:id
+router.get('/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const record = await extractionRepository.findById(req.params.id);
+    if (!record || !canAccessRecord(req.user!, record)) {
+      res.status(404).json({ error: 'Extraction not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      extraction: record
+    });
+
+  } catch (error) {
+    console.error('Extraction retrieval error:', error);
+    res.status(500).json({ error: 'Failed to retrieve extraction' });
+  }
+});
+
 export { router as extractionRoutes }; 
\ No newline at end of file
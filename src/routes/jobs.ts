@@ -0,0 +1,27 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest, canAccessRecord } from '../middleware/auth';
+import { jobRepository } from '../repositories/jobRepository';
+
+const router = Router();
+
+// GET /api/jobs/:id
+router.get('/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const job = await jobRepository.findById(req.params.id);
+    if (!job || !canAccessRecord(req.user!, job)) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      job
+    });
+
+  } catch (error) {
+    console.error('Job retrieval error:', error);
+    res.status(500).json({ error: 'Failed to retrieve job' });
+  }
+});
+
+export { router as jobRoutes };
@@ -0,0 +1,197 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest, canAccessRecord, getAccessScope } from '../middleware/auth';
+import { audioUpload, backgroundJobSchema, detectAudioFormat, transcriptionOptionsSchema } from '../middleware/upload';
+import { repairNoteRepository } from '../repositories/repairNoteRepository';
+import { transcriptionRepository } from '../repositories/transcriptionRepository';
+import { extractionRepository } from '../repositories/extractionRepository';
+import { transcriptionJobQueue } from '../services/jobQueue';
+import { VoicePipelineService } from '../services/voicePipeline';
+
+const router = Router();
+
+// Validation schemas
+const customSchemaSchema = z.object({
+  fields: z.array(z.string()),
+  description: z.string()
+});
+
+// Multipart fields arrive as strings, so the custom schema is sent as JSON
+const pipelineRequestSchema = backgroundJobSchema.extend({
+  extractionType: z.enum(['repair_details', 'parts_inventory', 'labor_hours', 'customer_info', 'damage_assessment', 'custom']).default('repair_details'),
+  customSchema: z.string().optional().transform((val, ctx) => {
+    if (!val) {
+      return undefined;
+    }
+    try {
+      return customSchemaSchema.parse(JSON.parse(val));
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'customSchema must be a JSON object with fields and description' });
+      return z.NEVER;
+    }
+  })
+}).refine(data => data.extractionType !== 'custom' || data.customSchema, {
+  message: 'customSchema is required for custom extraction type',
+  path: ['customSchema']
+});
+
+const historyQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  extractionType: z.enum(['repair_details', 'parts_inventory', 'labor_hours', 'customer_info', 'damage_assessment', 'custom']).optional(),
+  userId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+// POST /api/pipeline
+router.post('/', audioUpload.single('audio'), detectAudioFormat, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No audio file provided' });
+      return;
+    }
+
+    const options = transcriptionOptionsSchema.parse(req.body);
+    const pipelineOptions = await pipelineRequestSchema.parseAsync(req.body);
+
+    const audio = {
+      shopId: req.user!.shopId,
+      userId: req.user!.id,
+      audioBuffer: req.file.buffer,
+      fileName: req.file.originalname,
+      mimeType: req.file.mimetype,
+      fileSize: req.file.size,
+      options
+    };
+
+    if (pipelineOptions.async) {
+      const job = await transcriptionJobQueue.enqueue({
+        ...audio,
+        extractionType: pipelineOptions.extractionType,
+        customSchema: pipelineOptions.customSchema,
+        callbackUrl: pipelineOptions.callbackUrl
+      });
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`
+      });
+      return;
+    }
+
+    const { note, transcription, extraction, repairJob } = await new VoicePipelineService().run({
+      ...audio,
+      extractionType: pipelineOptions.extractionType,
+      customSchema: pipelineOptions.customSchema
+    });
+
+    res.status(200).json({
+      success: extraction.result.success,
+      id: note.id,
+      transcription: transcription.result,
+      extraction: extraction.result,
+      metadata: {
+        repairNoteId: note.id,
+        transcriptionId: transcription.id,
+        extractionId: extraction.id,
+        repairJobId: repairJob?.id,
+        fileName: note.fileName,
+        fileSize: note.fileSize,
+        mimeType: note.mimeType,
+        model: note.model,
+        language: note.language,
+        extractionType: note.extractionType,
+        transcriptionLength: transcription.result.text.length,
+        processingTime: note.processingTime,
+        timestamp: note.createdAt,
+        userId: note.userId
+      }
+    });
+
+  } catch (error) {
+    console.error('Pipeline error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid pipeline request',
+        details: error.errors
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message.includes('rate limit')) {
+      res.status(429).json({ error: 'Rate limit exceeded for pipeline processing' });
+      return;
+    }
+
+    res.status(500).json({ error: 'Voice pipeline failed' });
+  }
+});
+
+// GET /api/pipeline/history
+router.get('/history', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const query = historyQuerySchema.parse(req.query);
+
+    const { items, total } = await repairNoteRepository.list({
+      ...query,
+      ...getAccessScope(req.user!)
+    });
+
+    res.status(200).json({
+      success: true,
+      repairNotes: items,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit)
+      }
+    });
+
+  } catch (error) {
+    console.error('Repair note history error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid history query',
+        details: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to retrieve repair notes' });
+  }
+});
+
+// GET /api/pipeline/:id
+router.get('/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const note = await repairNoteRepository.findById(req.params.id);
+    if (!note || !canAccessRecord(req.user!, note)) {
+      res.status(404).json({ error: 'Repair note not found' });
+      return;
+    }
+
+    const [transcription, extraction] = await Promise.all([
+      transcriptionRepository.findById(note.transcriptionId),
+      extractionRepository.findById(note.extractionId)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      repairNote: note,
+      transcription,
+      extraction
+    });
+
+  } catch (error) {
+    console.error('Repair note retrieval error:', error);
+    res.status(500).json({ error: 'Failed to retrieve repair note' });
+  }
+});
+
+export { router as pipelineRoutes };
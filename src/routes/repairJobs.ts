@@ -0,0 +1,303 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { AuthenticatedRequest, canAccessRecord, getAccessScope, requireRole } from '../middleware/auth';
+import { RepairJobService, listConflicts, visibleJob } from '../services/repairJobs';
+import { VIN_PATTERN } from '../services/vinDecoder';
+import { extractionRepository } from '../repositories/extractionRepository';
+import { repairJobRepository, StoredRepairJob } from '../repositories/repairJobRepository';
+
+const router = Router();
+
+// Validation schemas
+const jobNumberSchema = z.string().trim().min(1).max(50);
+const vinSchema = z.string().trim().toUpperCase().regex(VIN_PATTERN, 'VIN must be 17 characters without I, O or Q');
+
+const createRepairJobSchema = z.object({
+  jobNumber: jobNumberSchema.optional(),
+  vin: vinSchema.optional()
+}).refine(data => data.jobNumber || data.vin, { message: 'Provide a jobNumber or vin', path: ['jobNumber'] });
+
+const updateRepairJobSchema = z.object({
+  status: z.enum(['open', 'closed']).optional(),
+  jobNumber: jobNumberSchema.optional(),
+  vin: vinSchema.optional()
+});
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(['open', 'closed']).optional(),
+  jobNumber: z.string().optional(),
+  vin: z.string().optional()
+});
+
+const attachExtractionSchema = z.object({
+  extractionId: z.string().min(1)
+});
+
+// Jobs are shared across the shop: everyone who works on the vehicle adds notes to the same record
+const findShopJob = async (req: AuthenticatedRequest): Promise<StoredRepairJob | null> => {
+  const job = await repairJobRepository.findById(req.params.id);
+  return job && job.shopId === req.user!.shopId ? job : null;
+};
+
+// What each note contributed is only shown to those who may read the note itself
+const forReader = async (req: AuthenticatedRequest, job: StoredRepairJob): Promise<StoredRepairJob> => {
+  if (!getAccessScope(req.user!).userId) {
+    return job;
+  }
+  const extractions = await extractionRepository.findByIds(job.extractionIds);
+  return visibleJob(job, extractions, extraction => canAccessRecord(req.user!, extraction));
+};
+
+// Two open jobs with the same job number or VIN would split a vehicle's notes
+const findDuplicateOpenJob = async (shopId: string, key: { jobNumber?: string; vin?: string }, exceptId?: string) => {
+  const existing = await repairJobRepository.findByKey(shopId, key, 'open');
+  return existing && existing.id !== exceptId ? existing : null;
+};
+
+// GET /api/repair-jobs
+router.get('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const query = listQuerySchema.parse(req.query);
+
+    const { items, total } = await repairJobRepository.list({
+      ...query,
+      shopId: req.user!.shopId
+    });
+
+    res.status(200).json({
+      success: true,
+      repairJobs: await Promise.all(items.map(job => forReader(req, job))),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit)
+      }
+    });
+
+  } catch (error) {
+    console.error('Repair job listing error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid repair job query',
+        details: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to list repair jobs' });
+  }
+});
+
+// POST /api/repair-jobs
+router.post('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = createRepairJobSchema.parse(req.body);
+
+    if (await findDuplicateOpenJob(req.user!.shopId, validatedData)) {
+      res.status(400).json({ error: 'An open repair job with this job number or VIN already exists' });
+      return;
+    }
+
+    const job = await repairJobRepository.create({
+      shopId: req.user!.shopId,
+      userId: req.user!.id,
+      ...validatedData
+    });
+
+    res.status(201).json({ success: true, repairJob: job });
+
+  } catch (error) {
+    console.error('Repair job creation error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid repair job data',
+        details: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to create repair job' });
+  }
+});
+
+// GET /api/repair-jobs/:id
+router.get('/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const job = await findShopJob(req);
+    if (!job) {
+      res.status(404).json({ error: 'Repair job not found' });
+      return;
+    }
+
+    const extractions = (await extractionRepository.findByIds(job.extractionIds))
+      .filter(extraction => canAccessRecord(req.user!, extraction));
+    const visible = visibleJob(job, extractions, () => true);
+
+    res.status(200).json({
+      success: true,
+      repairJob: visible,
+      conflicts: listConflicts(visible),
+      extractions: extractions.map(extraction => ({
+        id: extraction.id,
+        userId: extraction.userId,
+        extractionType: extraction.extractionType,
+        createdAt: extraction.createdAt
+      }))
+    });
+
+  } catch (error) {
+    console.error('Repair job retrieval error:', error);
+    res.status(500).json({ error: 'Failed to retrieve repair job' });
+  }
+});
+
+// PATCH /api/repair-jobs/:id
+router.patch('/:id', requireRole('estimator', 'manager', 'admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = updateRepairJobSchema.parse(req.body);
+
+    const job = await findShopJob(req);
+    if (!job) {
+      res.status(404).json({ error: 'Repair job not found' });
+      return;
+    }
+
+    // Reopening a job or changing its keys must not collide with another open job
+    const staysOpen = (validatedData.status ?? job.status) === 'open';
+    if (staysOpen && await findDuplicateOpenJob(job.shopId, {
+      jobNumber: validatedData.jobNumber ?? job.jobNumber,
+      vin: validatedData.vin ?? job.vin
+    }, job.id)) {
+      res.status(400).json({ error: 'An open repair job with this job number or VIN already exists' });
+      return;
+    }
+
+    const updated = await repairJobRepository.update(job.id, validatedData);
+
+    res.status(200).json({ success: true, repairJob: updated && await forReader(req, updated) });
+
+  } catch (error) {
+    console.error('Repair job update error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid repair job data',
+        details: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to update repair job' });
+  }
+});
+
+// DELETE /api/repair-jobs/:id
+router.delete('/:id', requireRole('estimator', 'manager', 'admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const job = await findShopJob(req);
+    if (!job) {
+      res.status(404).json({ error: 'Repair job not found' });
+      return;
+    }
+
+    // The extractions themselves are kept; only the grouping goes away
+    await repairJobRepository.delete(job.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Repair job deleted'
+    });
+
+  } catch (error) {
+    console.error('Repair job deletion error:', error);
+    res.status(500).json({ error: 'Failed to delete repair job' });
+  }
+});
+
+// POST /api/repair-jobs/:id/extractions
+router.post('/:id/extractions', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = attachExtractionSchema.parse(req.body);
+
+    const job = await findShopJob(req);
+    if (!job) {
+      res.status(404).json({ error: 'Repair job not found' });
+      return;
+    }
+
+    const extraction = await extractionRepository.findById(validatedData.extractionId);
+    if (!extraction || !canAccessRecord(req.user!, extraction)) {
+      res.status(404).json({ error: 'Extraction not found' });
+      return;
+    }
+
+    if (!extraction.result.success) {
+      res.status(400).json({ error: 'Only successful extractions can be added to a repair job' });
+      return;
+    }
+
+    const current = await repairJobRepository.findByExtraction(job.shopId, extraction.id);
+    if (current && current.id !== job.id) {
+      res.status(400).json({ error: 'Extraction already belongs to another repair job' });
+      return;
+    }
+
+    const updated = await forReader(req, await new RepairJobService().attach(job, extraction));
+
+    res.status(200).json({
+      success: true,
+      repairJob: updated,
+      conflicts: listConflicts(updated)
+    });
+
+  } catch (error) {
+    console.error('Repair job attach error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid repair job extraction',
+        details: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to add extraction to repair job' });
+  }
+});
+
+// DELETE /api/repair-jobs/:id/extractions/:extractionId
+router.delete('/:id/extractions/:extractionId', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const job = await findShopJob(req);
+    if (!job) {
+      res.status(404).json({ error: 'Repair job not found' });
+      return;
+    }
+
+    // An extraction deleted since it was attached can still be removed by anyone in the shop
+    const extraction = await extractionRepository.findById(req.params.extractionId);
+    if (!job.extractionIds.includes(req.params.extractionId) || (extraction && !canAccessRecord(req.user!, extraction))) {
+      res.status(404).json({ error: 'Extraction not found in repair job' });
+      return;
+    }
+
+    const updated = await forReader(req, await new RepairJobService().detach(job, req.params.extractionId));
+
+    res.status(200).json({
+      success: true,
+      repairJob: updated,
+      conflicts: listConflicts(updated)
+    });
+
+  } catch (error) {
+    console.error('Repair job detach error:', error);
+    res.status(500).json({ error: 'Failed to remove extraction from repair job' });
+  }
+});
+
+export { router as repairJobRoutes };
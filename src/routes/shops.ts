@@ -0,0 +1,320 @@
+import { Router, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+import { AuthenticatedRequest, requireRole } from '../middleware/auth';
+import { shopRepository } from '../repositories/shopRepository';
+import { DuplicateEmailError, userRepository, UserRepository, UserRole, USER_ROLES } from '../repositories/userRepository';
+import { TokenService } from '../services/tokenService';
+import { hasExtractionProvider } from '../services/extractionProviders/registry';
+import { AudioRetentionService, getRetentionDays } from '../services/audioRetention';
+import { AUTOMOTIVE_VOCABULARY } from '../services/vocabulary';
+
+const router = Router();
+
+// Validation schemas
+const brandingSchema = z.object({
+  displayName: z.string().min(1).max(100).optional(),
+  address: z.string().max(300).optional(),
+  phone: z.string().max(40).optional(),
+  email: z.string().email('Invalid email format').optional(),
+  website: z.string().max(200).optional(),
+  accentColor: z.string().regex(/^#[0-9a-f]{6}$/i, 'Accent color must be a hex color like #1f4e79').optional(),
+  footerText: z.string().max(500).optional()
+});
+
+const updateShopSchema = z.object({
+  name: z.string().min(2, 'Shop name must be at least 2 characters').optional(),
+  // null clears the setting so the server default applies again
+  extractionProvider: z.string().refine(hasExtractionProvider, { message: 'Unknown extraction provider' }).nullable().optional(),
+  extractionModel: z.string().min(1).nullable().optional(),
+  laborRate: z.number().positive().nullable().optional(),
+  refinishRate: z.number().positive().nullable().optional(),
+  branding: brandingSchema.nullable().optional(),
+  audioRetentionDays: z.number().int().min(1).max(3650).nullable().optional()
+});
+
+const vocabularySchema = z.object({
+  terms: z.array(z.object({
+    term: z.string().trim().min(1).max(100),
+    misheard: z.array(z.string().trim().min(1).max(100)).max(20).optional()
+  })).max(500)
+});
+
+const createMemberSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  role: z.enum(USER_ROLES as [UserRole, ...UserRole[]]).default('technician')
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(USER_ROLES as [UserRole, ...UserRole[]]).optional(),
+  status: z.enum(['active', 'disabled']).optional()
+});
+
+// Managers run their team but cannot hand out or alter manager/admin access
+const MANAGEABLE_ROLES: Record<UserRole, UserRole[]> = {
+  technician: [],
+  estimator: [],
+  manager: ['technician', 'estimator'],
+  admin: ['technician', 'estimator', 'manager', 'admin']
+};
+
+const canManage = (actorRole: UserRole, targetRole: UserRole): boolean =>
+  MANAGEABLE_ROLES[actorRole].includes(targetRole);
+
+// GET /api/shops/current
+router.get('/current', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const shop = await shopRepository.findById(req.user!.shopId);
+    if (!shop) {
+      res.status(404).json({ error: 'Shop not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, shop });
+  } catch (error) {
+    console.error('Shop retrieval error:', error);
+    res.status(500).json({ error: 'Failed to retrieve shop' });
+  }
+});
+
+// PATCH /api/shops/current
+router.patch('/current', requireRole('admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = updateShopSchema.parse(req.body);
+
+    const { extractionProvider, extractionModel, laborRate, refinishRate, branding, audioRetentionDays, ...rest } = validatedData;
+    const shop = await shopRepository.update(req.user!.shopId, {
+      ...rest,
+      ...(extractionProvider !== undefined && { extractionProvider: extractionProvider ?? undefined }),
+      ...(extractionModel !== undefined && { extractionModel: extractionModel ?? undefined }),
+      ...(laborRate !== undefined && { laborRate: laborRate ?? undefined }),
+      ...(refinishRate !== undefined && { refinishRate: refinishRate ?? undefined }),
+      ...(branding !== undefined && { branding: branding ?? undefined }),
+      ...(audioRetentionDays !== undefined && { audioRetentionDays: audioRetentionDays ?? undefined })
+    });
+    if (!shop) {
+      res.status(404).json({ error: 'Shop not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, shop });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid shop update',
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Shop update error:', error);
+    res.status(500).json({ error: 'Failed to update shop' });
+  }
+});
+
+// POST /api/shops/current/audio/purge
+router.post('/current/audio/purge', requireRole('admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const shop = await shopRepository.findById(req.user!.shopId);
+    const retentionDays = getRetentionDays(shop);
+    if (!retentionDays) {
+      res.status(400).json({ error: 'No audio retention period is set for this shop' });
+      return;
+    }
+
+    // The scheduled purge does the same across all shops; this runs it now for the caller's shop
+    const result = await new AudioRetentionService().purgeExpired(req.user!.shopId);
+
+    res.status(200).json({ success: true, retentionDays, ...result });
+  } catch (error) {
+    console.error('Audio purge error:', error);
+    res.status(500).json({ error: 'Failed to purge audio' });
+  }
+});
+
+// GET /api/shops/current/vocabulary
+router.get('/current/vocabulary', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const shop = await shopRepository.findById(req.user!.shopId);
+    if (!shop) {
+      res.status(404).json({ error: 'Shop not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      terms: shop.vocabulary || [],
+      builtIn: AUTOMOTIVE_VOCABULARY
+    });
+  } catch (error) {
+    console.error('Vocabulary retrieval error:', error);
+    res.status(500).json({ error: 'Failed to retrieve vocabulary' });
+  }
+});
+
+// PUT /api/shops/current/vocabulary
+router.put('/current/vocabulary', requireRole('estimator', 'manager', 'admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = vocabularySchema.parse(req.body);
+
+    const shop = await shopRepository.update(req.user!.shopId, { vocabulary: validatedData.terms });
+    if (!shop) {
+      res.status(404).json({ error: 'Shop not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, terms: shop.vocabulary });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid vocabulary',
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Vocabulary update error:', error);
+    res.status(500).json({ error: 'Failed to update vocabulary' });
+  }
+});
+
+// GET /api/shops/current/users
+router.get('/current/users', requireRole('manager', 'admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const users = await userRepository.listByShop(req.user!.shopId);
+
+    res.status(200).json({
+      success: true,
+      users: users.map(UserRepository.toPublic)
+    });
+  } catch (error) {
+    console.error('Shop member listing error:', error);
+    res.status(500).json({ error: 'Failed to list shop members' });
+  }
+});
+
+// POST /api/shops/current/users
+router.post('/current/users', requireRole('manager', 'admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = createMemberSchema.parse(req.body);
+
+    if (!canManage(req.user!.role, validatedData.role)) {
+      res.status(403).json({ error: `The ${req.user!.role} role cannot add members with the ${validatedData.role} role` });
+      return;
+    }
+
+    const existingUser = await userRepository.findByEmail(validatedData.email);
+    if (existingUser) {
+      res.status(400).json({ error: 'User with this email already exists' });
+      return;
+    }
+
+    const user = await userRepository.create({
+      email: validatedData.email,
+      password: await bcrypt.hash(validatedData.password, 12),
+      name: validatedData.name,
+      shopId: req.user!.shopId,
+      role: validatedData.role
+    });
+
+    res.status(201).json({
+      success: true,
+      user: UserRepository.toPublic(user)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid shop member',
+        details: error.errors
+      });
+      return;
+    }
+
+    if (error instanceof DuplicateEmailError) {
+      res.status(400).json({ error: 'User with this email already exists' });
+      return;
+    }
+
+    console.error('Shop member creation error:', error);
+    res.status(500).json({ error: 'Failed to add shop member' });
+  }
+});
+
+// PATCH /api/shops/current/users/:id
+router.patch('/current/users/:id', requireRole('manager', 'admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = updateMemberSchema.parse(req.body);
+
+    const target = await userRepository.findById(req.params.id);
+    if (!target || target.shopId !== req.user!.shopId) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (target.id === req.user!.id) {
+      res.status(400).json({ error: 'Use the account endpoints to change your own access' });
+      return;
+    }
+
+    if (!canManage(req.user!.role, target.role) ||
+        (validatedData.role && !canManage(req.user!.role, validatedData.role))) {
+      res.status(403).json({ error: 'Insufficient permissions for this change' });
+      return;
+    }
+
+    let updated = target;
+    if (validatedData.role && validatedData.role !== target.role) {
+      updated = (await userRepository.updateRole(target.id, validatedData.role)) || updated;
+    }
+
+    if (validatedData.status && validatedData.status !== target.status) {
+      updated = (await userRepository.setStatus(target.id, validatedData.status)) || updated;
+      if (validatedData.status === 'disabled') {
+        await new TokenService().revokeAllSessions(target.id);
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      user: UserRepository.toPublic(updated)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid shop member update',
+        details: error.errors
+      });
+      return;
+    }
+
+    console.error('Shop member update error:', error);
+    res.status(500).json({ error: 'Failed to update shop member' });
+  }
+});
+
+// POST /api/shops/current/users/:id/revoke-sessions
+router.post('/current/users/:id/revoke-sessions', requireRole('manager', 'admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const target = await userRepository.findById(req.params.id);
+    if (!target || target.shopId !== req.user!.shopId) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (target.id !== req.user!.id && !canManage(req.user!.role, target.role)) {
+      res.status(403).json({ error: 'Insufficient permissions for this change' });
+      return;
+    }
+
+    await new TokenService().revokeAllSessions(target.id);
+
+    res.status(200).json({ message: 'All sessions revoked for user' });
+  } catch (error) {
+    console.error('Session revocation error:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+export { router as shopRoutes };
@@ -0,0 +1,133 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { z } from 'zod';
+import { authenticateAccessToken, AuthenticatedUser } from '../middleware/auth';
+import { transcriptionOptionsSchema } from '../middleware/upload';
+import { StreamingMessage, StreamingTranscriptionSession } from '../services/streamingSession';
+
+export const STREAM_PATH = '/api/stream';
+
+// Connection parameters; browsers cannot set headers on WebSocket requests, so the token rides in the query
+const streamQuerySchema = z.object({
+  token: z.string().min(1, 'Access token is required'),
+  mimeType: z.string().default('audio/webm'),
+  extractionType: z.enum(['repair_details', 'parts_inventory', 'labor_hours', 'customer_info', 'damage_assessment']).optional(),
+  partials: z.string().optional().transform(val => val !== 'false')
+});
+
+const controlMessageSchema = z.object({
+  type: z.enum(['stop'])
+});
+
+const STREAMABLE_MIME_TYPES = ['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/wav', 'audio/mpeg'];
+
+const rejectUpgrade = (socket: Duplex, status: number, message: string): void => {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Type: text/plain\r\n\r\n${message}`);
+  socket.destroy();
+};
+
+const handleConnection = (
+  ws: WebSocket,
+  user: AuthenticatedUser,
+  query: z.infer<typeof streamQuerySchema>,
+  options: z.infer<typeof transcriptionOptionsSchema>
+): void => {
+  const send = (message: StreamingMessage): void => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  const sessionId = `stream_${uuidv4()}`;
+  const session = new StreamingTranscriptionSession({
+    sessionId,
+    shopId: user.shopId,
+    userId: user.id,
+    mimeType: query.mimeType,
+    options,
+    extractionType: query.extractionType,
+    partials: query.partials,
+    send
+  });
+
+  // Runs once whether the client asks to stop or just hangs up; results are stored either way
+  let finishing: Promise<void> | null = null;
+  const finish = (): Promise<void> => {
+    if (!finishing) {
+      finishing = session.finish().catch(error => {
+        console.error(`Streaming session ${sessionId} failed:`, error);
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Streaming transcription failed' });
+      });
+    }
+    return finishing;
+  };
+
+  ws.on('message', (data: RawData, isBinary: boolean) => {
+    try {
+      if (isBinary) {
+        session.addChunk(Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as Buffer));
+        return;
+      }
+
+      controlMessageSchema.parse(JSON.parse(data.toString()));
+      finish().then(() => ws.close(1000, 'Stream complete'));
+    } catch (error) {
+      const message = error instanceof z.ZodError || error instanceof SyntaxError
+        ? 'Unrecognized control message; send binary audio or {"type":"stop"}'
+        : error instanceof Error ? error.message : 'Invalid message';
+      send({ type: 'error', error: message });
+
+      if (!(error instanceof z.ZodError || error instanceof SyntaxError)) {
+        session.abort();
+        ws.close(1009, 'Stream rejected');
+      }
+    }
+  });
+
+  ws.on('close', () => {
+    finish();
+  });
+
+  send({ type: 'ready', sessionId });
+};
+
+// Attach the streaming transcription endpoint to the HTTP server the Express app listens on
+export const attachStreamingServer = (server: Server): WebSocketServer => {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== STREAM_PATH) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    const params = Object.fromEntries(url.searchParams);
+    const query = streamQuerySchema.safeParse(params);
+    const options = transcriptionOptionsSchema.safeParse(params);
+    if (!query.success || !options.success) {
+      rejectUpgrade(socket, 400, 'Bad Request');
+      return;
+    }
+
+    // MediaRecorder reports types such as "audio/webm;codecs=opus"
+    const mimeType = query.data.mimeType.split(';')[0].trim();
+    if (!STREAMABLE_MIME_TYPES.includes(mimeType)) {
+      rejectUpgrade(socket, 415, 'Unsupported Media Type');
+      return;
+    }
+
+    try {
+      const { user } = await authenticateAccessToken(query.data.token);
+      wss.handleUpgrade(req, socket, head, ws => {
+        handleConnection(ws, user, { ...query.data, mimeType }, options.data);
+      });
+    } catch {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+    }
+  });
+
+  return wss;
+};
@@ -1,48 +1,38 @@
-import { Router, Request, Response } from 'express';
-import multer from 'multer';
+import { Router, Response } from 'express';
 import { z } from 'zod';
-// import { AuthenticatedRequest } from '../middleware/auth'; // Removed for testing
+import { AuthenticatedRequest, canAccessRecord, getAccessScope } from '../middleware/auth';
 import { SpeechToTextService } from '../services/speechToText';
+import { audioUpload, backgroundJobSchema, detectAudioFormat, speakerRolesSchema, transcriptionOptionsSchema } from '../middleware/upload';
+import { transcriptionRepository } from '../repositories/transcriptionRepository';
+import { userRepository } from '../repositories/userRepository';
+import { enrolledLabels, labelSpeakers, speakerRoleForUser } from '../services/speakerRoles';
+import { transcriptionJobQueue } from '../services/jobQueue';
+import { VoicePipelineService } from '../services/voicePipeline';
 
 const router = Router();
 
-// Configure multer for file uploads
-const storage = multer.memoryStorage();
-const upload = multer({
-  storage,
-  limits: {
-    fileSize: parseInt(process.env.MAX_FILE_SIZE || '50000000'), // 50MB default
-  },
-  fileFilter: (req, file, cb) => {
-    // Accept audio files
-    const allowedMimeTypes = [
-      'audio/mpeg',
-      'audio/wav', 
-      'audio/mp3',
-      'audio/mp4',
-      'audio/m4a',
-      'audio/webm',
-      'audio/flac'
-    ];
-    
-    if (allowedMimeTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Invalid file type. Only audio files are allowed.'));
-    }
-  }
+// Validation schemas
+const asyncUploadSchema = backgroundJobSchema.extend({
+  extractionType: z.enum(['repair_details', 'parts_inventory', 'labor_hours', 'customer_info', 'damage_assessment']).optional()
 });
 
-// Validation schemas
-const transcriptionOptionsSchema = z.object({
+const speakerLabelsSchema = z.object({
+  speakers: speakerRolesSchema
+});
+
+const historyQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  model: z.string().optional(),
   language: z.string().optional(),
-  model: z.enum(['fal-whisper', 'google', 'azure']).optional().default('fal-whisper'),
-  timestamp: z.string().optional().transform(val => val === 'true').default('true'),
-  speakerDiarization: z.string().optional().transform(val => val === 'true').default('false')
+  search: z.string().optional(),
+  userId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
 });
 
 // POST /api/transcription/upload
-router.post('/upload', upload.single('audio'), async (req: Request, res: Response): Promise<void> => {
+router.post('/upload', audioUpload.single('audio'), detectAudioFormat, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     if (!req.file) {
       res.status(400).json({ error: 'No audio file provided' });
@@ -51,27 +41,51 @@ router.post('/upload', upload.single('audio'), async (req: Request, res: Respons
 
     // Parse and validate options
     const options = transcriptionOptionsSchema.parse(req.body);
+    const asyncOptions = await asyncUploadSchema.parseAsync(req.body);
+
+    if (asyncOptions.async) {
+      const job = await transcriptionJobQueue.enqueue({
+        shopId: req.user!.shopId,
+        userId: req.user!.id,
+        audioBuffer: req.file.buffer,
+        fileName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        fileSize: req.file.size,
+        options,
+        extractionType: asyncOptions.extractionType,
+        callbackUrl: asyncOptions.callbackUrl
+      });
+
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`
+      });
+      return;
+    }
     
-    // Initialize speech-to-text service
-    const speechService = new SpeechToTextService();
-    
-    // Perform transcription
-    const transcriptionResult = await speechService.transcribe({
+    // Transcribe, store the record and keep the recording for playback
+    const record = await new VoicePipelineService().transcribe({
+      shopId: req.user!.shopId,
+      userId: req.user!.id,
       audioBuffer: req.file.buffer,
-      mimeType: req.file.mimetype,
       fileName: req.file.originalname,
-      userId: 'test-user', // Hardcoded for testing
+      mimeType: req.file.mimetype,
+      fileSize: req.file.size,
       options
     });
 
     res.status(200).json({
       success: true,
-      transcription: transcriptionResult,
+      id: record.id,
+      transcription: record.result,
       metadata: {
         fileName: req.file.originalname,
         fileSize: req.file.size,
         mimeType: req.file.mimetype,
         model: options.model,
+        audioUrl: record.audio ? `/api/audio/${record.id}` : undefined,
         timestamp: new Date().toISOString()
       }
     });
@@ -103,33 +117,64 @@ router.post('/upload', upload.single('audio'), async (req: Request, res: Respons
   }
 });
 
+// GET /api/transcription/models
+router.get('/models', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    models: SpeechToTextService.listModels()
+  });
+});
+
 // GET /api/transcription/history
-router.get('/history', async (req: Request, res: Response): Promise<void> => {
+router.get('/history', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    // TODO: Implement transcription history retrieval from database
-    // For now, return empty array
+    const query = historyQuerySchema.parse(req.query);
+
+    const { items, total } = await transcriptionRepository.list({
+      ...query,
+      ...getAccessScope(req.user!)
+    });
+
     res.status(200).json({
       success: true,
-      transcriptions: [],
-      message: 'Transcription history not yet implemented'
+      transcriptions: items,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit)
+      }
     });
 
   } catch (error) {
     console.error('History retrieval error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid history query',
+        details: error.errors
+      });
+      return;
+    }
+
     res.status(500).json({ error: 'Failed to retrieve transcription history' });
   }
 });
 
 // GET /api/transcription/:id
-router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+router.get('/:id', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const transcriptionId = req.params.id;
     
-    // TODO: Implement specific transcription retrieval from database
-    // For now, return not found
-    res.status(404).json({
-      error: 'Transcription not found',
-      message: 'Database integration not yet implemented'
+    const record = await transcriptionRepository.findById(transcriptionId);
+    if (!record || !canAccessRecord(req.user!, record)) {
+      res.status(404).json({ error: 'Transcription not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      transcription: record
     });
 
   } catch (error) {
@@ -138,4 +183,55 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// PUT /api/transcription/:id/speakers
+router.put('/:id/speakers', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const validatedData = speakerLabelsSchema.parse(req.body);
+
+    const record = await transcriptionRepository.findById(req.params.id);
+    if (!record || !canAccessRecord(req.user!, record)) {
+      res.status(404).json({ error: 'Transcription not found' });
+      return;
+    }
+
+    const known = new Set((record.result.segments || []).flatMap(segment => segment.speaker ? [segment.speaker] : []));
+    if (known.size === 0) {
+      res.status(400).json({ error: 'Transcription has no diarized speakers' });
+      return;
+    }
+    const unknown = Object.keys(validatedData.speakers).filter(speaker => !known.has(speaker));
+    if (unknown.length > 0) {
+      res.status(400).json({ error: `Unknown speaker labels: ${unknown.join(', ')}` });
+      return;
+    }
+
+    // Earlier confirmations stay; the other speakers are worked out again around the new ones
+    const recorder = await userRepository.findById(record.userId);
+    const result = labelSpeakers(record.result, {
+      labels: { ...enrolledLabels(record.result), ...validatedData.speakers },
+      recordedBy: speakerRoleForUser(recorder?.role)
+    });
+    const updated = await transcriptionRepository.update(record.id, { result });
+
+    res.status(200).json({
+      success: true,
+      speakers: result.speakers,
+      transcription: updated ?? { ...record, result }
+    });
+
+  } catch (error) {
+    console.error('Speaker labelling error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid speaker labels',
+        details: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Failed to label speakers' });
+  }
+});
+
 export { router as transcriptionRoutes }; 
\ No newline at end of file
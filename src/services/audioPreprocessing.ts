@@ -0,0 +1,279 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export interface AudioFormat {
+  name: string;
+  mimeType: string;
+  extension: string;
+}
+
+// A piece of the recording in the canonical format, placed on the original timeline
+export interface AudioChunk {
+  audioBuffer: Buffer;
+  offset: number; // seconds from the start of the original recording
+  duration: number;
+}
+
+export interface PreparedAudio {
+  format: AudioFormat;
+  duration: number; // of the whole recording, silence included
+  chunks: AudioChunk[];
+}
+
+export interface ChunkingOptions {
+  maxChunkSeconds: number;
+  silenceThresholdDb: number;
+  minSilenceMs: number;
+}
+
+// Canonical format sent to every provider: 16 kHz mono 16-bit PCM WAV
+export const CANONICAL_FORMAT: AudioFormat = { name: 'wav', mimeType: 'audio/wav', extension: 'wav' };
+const SAMPLE_RATE = 16000;
+const FRAME_SAMPLES = SAMPLE_RATE / 50; // 20 ms analysis frames
+const EDGE_PADDING_SECONDS = 0.25; // kept around speech when trimming silence
+
+const FORMATS: Record<'wav' | 'flac' | 'mp3' | 'aac' | 'mp4' | 'webm' | 'ogg' | 'caf' | 'amr', AudioFormat> = {
+  wav: CANONICAL_FORMAT,
+  flac: { name: 'flac', mimeType: 'audio/flac', extension: 'flac' },
+  mp3: { name: 'mp3', mimeType: 'audio/mpeg', extension: 'mp3' },
+  aac: { name: 'aac', mimeType: 'audio/aac', extension: 'aac' },
+  mp4: { name: 'mp4', mimeType: 'audio/mp4', extension: 'm4a' },
+  webm: { name: 'webm', mimeType: 'audio/webm', extension: 'webm' },
+  ogg: { name: 'ogg', mimeType: 'audio/ogg', extension: 'ogg' },
+  caf: { name: 'caf', mimeType: 'audio/x-caf', extension: 'caf' },
+  amr: { name: 'amr', mimeType: 'audio/amr', extension: 'amr' }
+};
+
+const ascii = (buffer: Buffer, start: number, end: number): string => buffer.toString('latin1', start, end);
+
+/**
+ * Identify a recording from its leading bytes rather than the client's MIME type, which phones
+ * and browsers report inconsistently (audio/x-m4a, audio/x-wav, video/mp4 ...). Null when the
+ * bytes match no supported audio container.
+ */
+export const sniffAudioFormat = (buffer: Buffer): AudioFormat | null => {
+  if (buffer.length < 12) {
+    return null;
+  }
+
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WAVE') return FORMATS.wav;
+  if (ascii(buffer, 0, 4) === 'fLaC') return FORMATS.flac;
+  if (ascii(buffer, 0, 4) === 'OggS') return FORMATS.ogg;
+  if (ascii(buffer, 0, 4) === 'caff') return FORMATS.caf;
+  if (ascii(buffer, 0, 5) === '#!AMR') return FORMATS.amr;
+  if (ascii(buffer, 4, 8) === 'ftyp') return FORMATS.mp4; // M4A, MP4 and QuickTime audio
+  if (buffer.readUInt32BE(0) === 0x1a45dfa3) return FORMATS.webm; // EBML header (WebM / Matroska)
+  if (ascii(buffer, 0, 3) === 'ID3') return FORMATS.mp3;
+
+  // MPEG frame sync: layer bits 00 mean ADTS AAC, anything else is an MP3 frame
+  if (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) {
+    return (buffer[1] & 0x06) === 0 ? FORMATS.aac : FORMATS.mp3;
+  }
+
+  return null;
+};
+
+export const getChunkingOptions = (): ChunkingOptions => ({
+  maxChunkSeconds: parseInt(process.env.AUDIO_CHUNK_SECONDS || '120') || 120,
+  silenceThresholdDb: parseFloat(process.env.AUDIO_SILENCE_THRESHOLD_DB || '-40') || -40,
+  minSilenceMs: parseInt(process.env.AUDIO_MIN_SILENCE_MS || '500') || 500
+});
+
+// 16-bit PCM WAV is decoded here so the common case needs no ffmpeg; null for anything else
+const decodeWav = (buffer: Buffer): Int16Array | null => {
+  let format: { channels: number; sampleRate: number; bitsPerSample: number; audioFormat: number } | null = null;
+
+  for (let offset = 12; offset + 8 <= buffer.length;) {
+    const id = ascii(buffer, offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && body + 16 <= buffer.length) {
+      format = {
+        audioFormat: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14)
+      };
+    } else if (id === 'data') {
+      // PCM, or WAVE_FORMAT_EXTENSIBLE which phones use for plain PCM too
+      if (!format || (format.audioFormat !== 1 && format.audioFormat !== 0xfffe) || format.bitsPerSample !== 16 || !format.channels) {
+        return null;
+      }
+      const end = Math.min(buffer.length, body + size);
+      const frames = Math.floor((end - body) / (2 * format.channels));
+      const mono = new Float32Array(frames);
+      for (let frame = 0; frame < frames; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < format.channels; channel++) {
+          sum += buffer.readInt16LE(body + (frame * format.channels + channel) * 2);
+        }
+        mono[frame] = sum / format.channels;
+      }
+      return resample(mono, format.sampleRate);
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+};
+
+// Linear interpolation is plenty for speech recognition input
+const resample = (samples: Float32Array, sampleRate: number): Int16Array => {
+  const ratio = sampleRate / SAMPLE_RATE;
+  const output = new Int16Array(Math.floor(samples.length / ratio));
+  for (let index = 0; index < output.length; index++) {
+    const position = index * ratio;
+    const left = Math.floor(position);
+    const right = Math.min(left + 1, samples.length - 1);
+    output[index] = Math.round(samples[left] + (samples[right] - samples[left]) * (position - left));
+  }
+  return output;
+};
+
+const decodeWithFfmpeg = async (buffer: Buffer, format: AudioFormat): Promise<Int16Array> => {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'audio-prep-'));
+  const command = process.env.FFMPEG_PATH || 'ffmpeg';
+
+  try {
+    const inputPath = path.join(workDir, `input.${format.extension}`);
+    const outputPath = path.join(workDir, 'output.pcm');
+    await fs.writeFile(inputPath, buffer);
+
+    await execFileAsync(command, [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-i', inputPath,
+      '-f', 's16le', '-ar', String(SAMPLE_RATE), '-ac', '1',
+      outputPath
+    ], { timeout: parseInt(process.env.FFMPEG_TIMEOUT_MS || '300000') || 300000 });
+
+    // Copy out of the read buffer, whose offset may not be 2-byte aligned
+    const pcm = await fs.readFile(outputPath);
+    const length = pcm.length - (pcm.length % 2);
+    return new Int16Array(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + length));
+  } catch (error) {
+    const failure = error as NodeJS.ErrnoException & { stderr?: string };
+    if (failure.code === 'ENOENT') {
+      throw new Error(`${command} was not found; install it or set FFMPEG_PATH`);
+    }
+    throw new Error(`Could not decode ${format.name} audio: ${failure.stderr?.trim() || failure.message}`);
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+};
+
+const encodeWav = (samples: Int16Array): Buffer => {
+  const header = Buffer.alloc(44);
+  const dataSize = samples.length * 2;
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8, 'latin1');
+  header.write('fmt ', 12, 'latin1');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(dataSize, 40);
+  return Buffer.concat([header, Buffer.from(samples.buffer, samples.byteOffset, dataSize)]);
+};
+
+// Per-frame flags: true where the frame's RMS level is below the silence threshold
+const detectSilentFrames = (samples: Int16Array, thresholdDb: number): boolean[] => {
+  const threshold = 32768 * Math.pow(10, thresholdDb / 20);
+  const frames: boolean[] = [];
+  for (let start = 0; start < samples.length; start += FRAME_SAMPLES) {
+    const end = Math.min(start + FRAME_SAMPLES, samples.length);
+    let sumSquares = 0;
+    for (let index = start; index < end; index++) {
+      sumSquares += samples[index] * samples[index];
+    }
+    frames.push(Math.sqrt(sumSquares / (end - start)) < threshold);
+  }
+  return frames;
+};
+
+/**
+ * Split [start, end) frames into pieces no longer than the chunk limit, cutting in the middle of the
+ * longest (latest, on ties) pause in the second half of each window, or hard at the limit when nobody pauses.
+ */
+const planChunks = (silent: boolean[], start: number, end: number, options: ChunkingOptions): Array<[number, number]> => {
+  const maxFrames = Math.max(1, Math.floor(options.maxChunkSeconds * 50));
+  const minSilenceFrames = Math.max(1, Math.round(options.minSilenceMs / 20));
+  const chunks: Array<[number, number]> = [];
+
+  let chunkStart = start;
+  while (end - chunkStart > maxFrames) {
+    const windowEnd = chunkStart + maxFrames;
+    let best: { start: number; length: number } | null = null;
+
+    for (let frame = chunkStart + Math.floor(maxFrames / 2); frame < windowEnd;) {
+      if (!silent[frame]) {
+        frame++;
+        continue;
+      }
+      const runStart = frame;
+      while (frame < windowEnd && silent[frame]) {
+        frame++;
+      }
+      const length = frame - runStart;
+      if (length >= minSilenceFrames && (!best || length >= best.length)) {
+        best = { start: runStart, length };
+      }
+    }
+
+    const cut = best ? best.start + Math.floor(best.length / 2) : windowEnd;
+    chunks.push([chunkStart, cut]);
+    chunkStart = cut;
+  }
+  chunks.push([chunkStart, end]);
+
+  return chunks;
+};
+
+/**
+ * Decode a recording to the canonical format, trim leading and trailing silence and, unless
+ * `split` is false, cut long recordings at pauses so the pieces can be transcribed in parallel.
+ * Chunk offsets keep timestamps aligned with the original audio.
+ */
+export const prepareAudio = async (
+  buffer: Buffer,
+  format: AudioFormat,
+  options: ChunkingOptions & { split: boolean }
+): Promise<PreparedAudio> => {
+  const samples = (format.name === 'wav' && decodeWav(buffer)) || await decodeWithFfmpeg(buffer, format);
+  const duration = samples.length / SAMPLE_RATE;
+
+  const silent = detectSilentFrames(samples, options.silenceThresholdDb);
+  const padding = Math.round(EDGE_PADDING_SECONDS * 50);
+  const firstSpeech = silent.indexOf(false);
+
+  // All silence: pass the recording through whole and let the provider return nothing
+  if (firstSpeech === -1) {
+    return { format, duration, chunks: [{ audioBuffer: encodeWav(samples), offset: 0, duration }] };
+  }
+
+  const start = Math.max(0, firstSpeech - padding);
+  const end = Math.min(silent.length, silent.lastIndexOf(false) + 1 + padding);
+  const ranges = options.split ? planChunks(silent, start, end, options) : [[start, end] as [number, number]];
+
+  const chunks = ranges.map(([from, to]) => {
+    const piece = samples.subarray(from * FRAME_SAMPLES, Math.min(samples.length, to * FRAME_SAMPLES));
+    return {
+      audioBuffer: encodeWav(piece),
+      offset: (from * FRAME_SAMPLES) / SAMPLE_RATE,
+      duration: piece.length / SAMPLE_RATE
+    };
+  });
+
+  return { format, duration, chunks };
+};
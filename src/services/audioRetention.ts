@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import { AudioStore, audioStore, ByteRange } from '../storage/audioStore';
+import { Shop, shopRepository } from '../repositories/shopRepository';
+import { StoredTranscription, transcriptionRepository } from '../repositories/transcriptionRepository';
+import { sniffAudioFormat } from './audioPreprocessing';
+
+export interface SignedAudioLink {
+  url: string;
+  expiresAt: string;
+}
+
+export interface PurgeResult {
+  purged: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const extensionFor = (transcription: StoredTranscription, audioBuffer: Buffer): string =>
+  sniffAudioFormat(audioBuffer)?.extension ||
+  path.extname(transcription.fileName).slice(1).toLowerCase().replace(/[^a-z0-9]/g, '') ||
+  'bin';
+
+// Unset or 0 keeps recordings forever
+export const getRetentionDays = (shop: Shop | null): number | undefined =>
+  shop?.audioRetentionDays ?? (parseInt(process.env.AUDIO_RETENTION_DAYS || '') || undefined);
+
+const linkSecret = (): string => {
+  const secret = process.env.AUDIO_LINK_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('AUDIO_LINK_SECRET or JWT_SECRET environment variable is required to sign audio links');
+  }
+  return secret;
+};
+
+const linkSignature = (transcriptionId: string, expires: number): string =>
+  crypto.createHmac('sha256', linkSecret()).update(`${transcriptionId}.${expires}`).digest('hex');
+
+// Keeps the recording behind each transcription so it can be played back, shared and purged later
+export class AudioRetentionService {
+  constructor(private store: AudioStore | null = audioStore) {}
+
+  /**
+   * Store the uploaded audio and record where it went. Storage failures are logged rather than
+   * thrown so a transcript is never lost because its recording could not be kept.
+   */
+  async retain(transcription: StoredTranscription, audioBuffer: Buffer): Promise<StoredTranscription> {
+    if (!this.store) {
+      return transcription;
+    }
+
+    const key = `${transcription.shopId}/${transcription.id}.${extensionFor(transcription, audioBuffer)}`;
+    try {
+      await this.store.put(key, audioBuffer, transcription.mimeType);
+      const updated = await transcriptionRepository.update(transcription.id, {
+        audio: { backend: this.store.backend, key, storedAt: new Date().toISOString() }
+      });
+      return updated ?? transcription;
+    } catch (error) {
+      console.error(`Failed to store audio for transcription ${transcription.id}:`, error);
+      return transcription;
+    }
+  }
+
+  // Null when the recording is not available from the configured backend
+  async open(transcription: StoredTranscription, range?: ByteRange): Promise<Readable | null> {
+    const audio = transcription.audio;
+    if (!audio || audio.purgedAt || !this.store || this.store.backend !== audio.backend) {
+      return null;
+    }
+    return this.store.read(audio.key, range);
+  }
+
+  // Delete recordings older than their shop's retention period, across all shops unless one is given
+  async purgeExpired(shopId?: string, now: Date = new Date()): Promise<PurgeResult> {
+    const result: PurgeResult = { purged: 0, failed: 0 };
+    if (!this.store) {
+      return result;
+    }
+
+    const retention = new Map<string, number | undefined>();
+    for (const transcription of await transcriptionRepository.listWithRetainedAudio(shopId)) {
+      const audio = transcription.audio!;
+      if (!retention.has(transcription.shopId)) {
+        retention.set(transcription.shopId, getRetentionDays(await shopRepository.findById(transcription.shopId)));
+      }
+
+      const days = retention.get(transcription.shopId);
+      if (!days || Date.parse(audio.storedAt) > now.getTime() - days * DAY_MS || audio.backend !== this.store.backend) {
+        continue;
+      }
+
+      try {
+        await this.store.delete(audio.key);
+        await transcriptionRepository.update(transcription.id, {
+          audio: { ...audio, purgedAt: now.toISOString() }
+        });
+        result.purged++;
+      } catch (error) {
+        console.error(`Failed to purge audio for transcription ${transcription.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  // Links carry their own expiry and HMAC, so they can be opened without a login
+  static createSignedLink(transcriptionId: string, expiresInSeconds: number): SignedAudioLink {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = linkSignature(transcriptionId, expires);
+    return {
+      url: `/api/audio/${transcriptionId}/download?expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000).toISOString()
+    };
+  }
+
+  static verifySignedLink(transcriptionId: string, expires: number, signature: string): boolean {
+    if (expires * 1000 < Date.now()) {
+      return false;
+    }
+    const actual = Buffer.from(signature);
+    const expected = Buffer.from(linkSignature(transcriptionId, expires));
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+}
+
+/**
+ * Purge expired recordings now and then every AUDIO_PURGE_INTERVAL_MINUTES. Only long-running processes
+ * (the local server and the job worker) start this, so importing the app never deletes audio.
+ */
+export const scheduleAudioPurge = (): NodeJS.Timeout => {
+  const purge = () => new AudioRetentionService().purgeExpired().catch(error => {
+    console.error('Failed to purge expired audio:', error);
+  });
+  purge();
+  return setInterval(purge, (parseInt(process.env.AUDIO_PURGE_INTERVAL_MINUTES || '60') || 60) * 60 * 1000).unref();
+};
@@ -1,16 +1,46 @@
-import OpenAI from 'openai';
+import {
+  EXTRACTION_TEMPLATES,
+  FieldSpec,
+  FieldValidationError,
+  buildZodSchema,
+  customFieldSpecs,
+  describeFieldType,
+  getTemplateFields,
+  toFieldErrors
+} from './extractionSchemas';
+import { FieldEvidence, averageConfidence, buildFieldEvidence } from './extractionEvidence';
+import { NormalizationReport, normalizeIdentifiers } from './identifierNormalization';
+import { EstimateRates, EstimateReport, reconcileEstimate } from './estimateReconciliation';
+import { TranscriptionSegment } from './speechToText';
+import { buildSpeakerTurns, formatSpeakerTranscript, SpeakerTurn } from './speakerRoles';
+import {
+  ChatMessage,
+  DEFAULT_EXTRACTION_PROVIDER,
+  ExtractorKind,
+  FALLBACK_EXTRACTION_PROVIDER,
+  getExtractionProvider
+} from './extractionProviders/registry';
+import { shopRepository } from '../repositories/shopRepository';
 
 export type ExtractionType = 'repair_details' | 'parts_inventory' | 'labor_hours' | 'customer_info' | 'damage_assessment' | 'custom';
 
+export interface SchemaReference {
+  id: string;
+  name: string;
+  version: number;
+}
+
 export interface CustomSchema {
-  fields: string[];
+  fields: Array<string | FieldSpec>; // Bare names are extracted as free-form strings
   description: string;
+  source?: SchemaReference; // Set when resolved from a saved shop schema
 }
 
 export interface ExtractionRequest {
   transcription: string;
   extractionType: ExtractionType;
   customSchema?: CustomSchema;
+  segments?: TranscriptionSegment[]; // Lets field evidence point at audio timestamps and the prompt name speakers
   userId: string;
 }
 
@@ -27,6 +57,16 @@ export interface ExtractionResult {
   confidence: number;
   extractionType: ExtractionType;
   processingTime: number;
+  attempts?: number;
+  validationErrors?: FieldValidationError[];
+  schema?: SchemaReference;
+  fields?: Record<string, FieldEvidence>;
+  normalization?: NormalizationReport;
+  estimate?: EstimateReport; // Server-side totals for estimate_lines and any disagreement with spoken amounts
+  provider?: string;
+  extractor?: ExtractorKind; // 'rules' results come from pattern matching, not a language model
+  fallback?: { from: string; reason: string }; // Set when the requested provider failed and another one answered
+  model?: string;
   tokens?: {
     prompt: number;
     completion: number;
@@ -40,78 +80,187 @@ export interface BatchExtractionResult {
   error?: string;
 }
 
+export interface ExtractionProviderOptions {
+  provider?: string;
+  model?: string;
+  rates?: EstimateRates; // Shop labor and refinish rates for pricing estimate lines
+}
+
+// Extra model calls allowed when the output does not match the field types; 0 turns them off and anything unparseable means 1
+const parsedValidationRetries = parseInt(process.env.EXTRACTION_VALIDATION_RETRIES || '1', 10);
+const VALIDATION_RETRIES = isNaN(parsedValidationRetries) ? 1 : Math.max(0, parsedValidationRetries);
+
+const EVIDENCE_INSTRUCTIONS = `Also include an "_evidence" object with an entry for every field you filled in: { "field_name": { "quote": "the exact words from the transcription the value came from", "confidence": 0.0-1.0 } }. Copy quotes verbatim; do not paraphrase.`;
+
+const SPEAKER_INSTRUCTIONS = `Attribute every statement to the person who said it. problem_description, service_requests and the customer's details come from what the Customer says; diagnosis, damage findings and repair work come from the Technician; prices, labor hours and insurance details usually come from the Estimator. Do not put the technician's findings in problem_description or the customer's complaint in diagnosis. Evidence quotes must be copied from the spoken words only, without the role label.`;
+
 export class DataExtractionService {
-  private openai: OpenAI;
+  constructor(private options: ExtractionProviderOptions = {}) {}
+
+  // Per-request choices win over the shop's configured provider, which wins over EXTRACTION_PROVIDER
+  static async forShop(shopId: string, overrides: ExtractionProviderOptions = {}): Promise<DataExtractionService> {
+    const shop = await shopRepository.findById(shopId);
+    const rates = { labor: shop?.laborRate, refinish: shop?.refinishRate };
 
-  constructor() {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
+    if (overrides.provider) {
+      return new DataExtractionService({ ...overrides, rates });
     }
-    
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+
+    return new DataExtractionService({
+      provider: shop?.extractionProvider,
+      model: overrides.model ?? shop?.extractionModel,
+      rates
     });
   }
 
   async extractData(request: ExtractionRequest): Promise<ExtractionResult> {
     const startTime = Date.now();
+    const providerName = this.options.provider || DEFAULT_EXTRACTION_PROVIDER;
     
     try {
-      console.log(`Starting data extraction for user ${request.userId} with type ${request.extractionType}`);
-      
-      const prompt = this.buildExtractionPrompt(request.transcription, request.extractionType, request.customSchema);
-      
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert data extraction assistant specializing in automotive repair transcriptions. Extract structured data accurately and provide confidence scores for your extractions.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1, // Low temperature for consistent extractions
-        response_format: { type: 'json_object' }
-      });
-
-      const responseText = completion.choices[0]?.message?.content;
-      if (!responseText) {
-        throw new Error('No response from extraction model');
-      }
-
-      const extractedData = JSON.parse(responseText);
-      const processingTime = Date.now() - startTime;
+      console.log(`Starting data extraction for user ${request.userId} with type ${request.extractionType} via ${providerName}`);
+      return await this.runProvider(providerName, this.options.model, request, startTime);
+    } catch (error) {
+      console.error('Data extraction error:', error);
+      const reason = error instanceof Error ? error.message : 'Unknown extraction error';
 
-      return {
-        success: true,
-        extractedData,
-        confidence: extractedData.confidence || 0.8,
-        extractionType: request.extractionType,
-        processingTime,
-        tokens: {
-          prompt: completion.usage?.prompt_tokens || 0,
-          completion: completion.usage?.completion_tokens || 0,
-          total: completion.usage?.total_tokens || 0
+      // Keep the note usable when the model is down: retry with the offline extractor and say so in the result
+      if (FALLBACK_EXTRACTION_PROVIDER !== 'none' && FALLBACK_EXTRACTION_PROVIDER !== providerName) {
+        try {
+          console.warn(`Falling back to ${FALLBACK_EXTRACTION_PROVIDER} extraction: ${reason}`);
+          const result = await this.runProvider(FALLBACK_EXTRACTION_PROVIDER, undefined, request, startTime);
+          return { ...result, fallback: { from: providerName, reason } };
+        } catch (fallbackError) {
+          console.error('Fallback extraction error:', fallbackError);
         }
-      };
+      }
 
-    } catch (error) {
-      console.error('Data extraction error:', error);
-      const processingTime = Date.now() - startTime;
-      
       return {
         success: false,
-        extractedData: { error: error instanceof Error ? error.message : 'Unknown extraction error' },
+        extractedData: { error: reason },
         confidence: 0,
         extractionType: request.extractionType,
-        processingTime
+        schema: request.customSchema?.source,
+        provider: providerName,
+        processingTime: Date.now() - startTime
       };
     }
   }
 
+  // One provider's attempt including validation retries; throws when the provider itself fails
+  private async runProvider(
+    providerName: string,
+    requestedModel: string | undefined,
+    request: ExtractionRequest,
+    startTime: number
+  ): Promise<ExtractionResult> {
+    const provider = getExtractionProvider(providerName);
+    if (!provider) {
+      throw new Error(`Unknown extraction provider: ${providerName}`);
+    }
+    if (!provider.isConfigured()) {
+      throw new Error(`Extraction provider ${providerName} is not configured`);
+    }
+
+    const fields = DataExtractionService.getFieldSpecs(request.extractionType, request.customSchema);
+    const schema = buildZodSchema(fields);
+    // Only worth showing the model once at least one speaker has a role
+    const turns = buildSpeakerTurns(request.segments);
+    const speakerTurns = turns.some(turn => turn.role) ? turns : undefined;
+    const prompt = this.buildExtractionPrompt(request.transcription, request.extractionType, request.customSchema, speakerTurns);
+    
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'You are an expert data extraction assistant specializing in automotive repair transcriptions. Extract structured data accurately and provide confidence scores for your extractions.'
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ];
+    const tokens = { prompt: 0, completion: 0, total: 0 };
+    let rawData: Record<string, any> = {};
+    let validationErrors: FieldValidationError[] = [];
+    let attempts = 0;
+    let model: string | undefined;
+
+    while (attempts <= VALIDATION_RETRIES) {
+      attempts++;
+
+      const completion = await provider.complete({
+        messages,
+        transcription: request.transcription,
+        speakerTurns,
+        fields,
+        model: requestedModel
+      });
+      model = completion.model;
+
+      tokens.prompt += completion.tokens?.prompt || 0;
+      tokens.completion += completion.tokens?.completion || 0;
+      tokens.total += completion.tokens?.total || 0;
+
+      const responseText = completion.content;
+
+      try {
+        rawData = JSON.parse(responseText);
+      } catch {
+        rawData = {};
+        validationErrors = [{ field: '(root)', message: 'Response was not valid JSON' }];
+        messages.push({ role: 'assistant', content: responseText }, { role: 'user', content: this.buildCorrectionPrompt(validationErrors) });
+        continue;
+      }
+
+      const parsed = schema.safeParse(rawData);
+      if (parsed.success) {
+        const { data, report } = normalizeIdentifiers(parsed.data);
+        const fields = buildFieldEvidence(data, rawData._evidence, request.transcription, request.segments);
+        const estimate = reconcileEstimate(data, this.options.rates);
+        return {
+          success: true,
+          extractedData: data,
+          confidence: data.confidence ?? averageConfidence(fields),
+          fields,
+          normalization: report,
+          ...(estimate && { estimate }),
+          extractionType: request.extractionType,
+          schema: request.customSchema?.source,
+          provider: providerName,
+          extractor: provider.kind,
+          model,
+          processingTime: Date.now() - startTime,
+          attempts,
+          tokens
+        };
+      }
+
+      validationErrors = toFieldErrors(parsed.error);
+      console.warn(`Extraction attempt ${attempts} failed validation:`, validationErrors);
+      // Rules give the same answer every time, so asking again is pointless
+      if (provider.kind === 'rules') {
+        break;
+      }
+      messages.push({ role: 'assistant', content: responseText }, { role: 'user', content: this.buildCorrectionPrompt(validationErrors) });
+    }
+
+    // Surface the raw output alongside the offending fields instead of dropping them silently
+    return {
+      success: false,
+      extractedData: rawData,
+      confidence: 0,
+      extractionType: request.extractionType,
+      schema: request.customSchema?.source,
+      provider: providerName,
+      extractor: provider.kind,
+      model,
+      processingTime: Date.now() - startTime,
+      attempts,
+      validationErrors,
+      tokens
+    };
+  }
+
   async extractDataBatch(request: BatchExtractionRequest): Promise<BatchExtractionResult[]> {
     console.log(`Starting batch extraction for ${request.transcriptions.length} transcriptions`);
     
@@ -162,8 +311,33 @@ export class DataExtractionService {
     return results;
   }
 
-  private buildExtractionPrompt(transcription: string, extractionType: ExtractionType, customSchema?: CustomSchema): string {
-    const basePrompt = `Extract structured data from the following automotive repair transcription. Return your response as a valid JSON object.
+  static getFieldSpecs(extractionType: ExtractionType, customSchema?: CustomSchema): FieldSpec[] {
+    if (extractionType === 'custom') {
+      if (!customSchema) {
+        throw new Error('Custom schema is required for custom extraction type');
+      }
+      return customFieldSpecs(customSchema.fields);
+    }
+
+    return getTemplateFields(EXTRACTION_TEMPLATES[extractionType]);
+  }
+
+  private buildExtractionPrompt(
+    transcription: string,
+    extractionType: ExtractionType,
+    customSchema?: CustomSchema,
+    speakerTurns?: SpeakerTurn[]
+  ): string {
+    const basePrompt = speakerTurns
+      ? `Extract structured data from the following automotive repair conversation. Each line is one speaker's turn, labelled with their role. Return your response as a valid JSON object.
+
+Transcription:
+${formatSpeakerTranscript(speakerTurns)}
+
+${SPEAKER_INSTRUCTIONS}
+
+`
+      : `Extract structured data from the following automotive repair transcription. Return your response as a valid JSON object.
 
 Transcription:
 "${transcription}"
@@ -174,84 +348,41 @@ Transcription:
       if (!customSchema) {
         throw new Error('Custom schema is required for custom extraction type');
       }
+      const fields = customFieldSpecs(customSchema.fields);
       return basePrompt + `Extract the following custom fields based on this schema:
 Description: ${customSchema.description}
-Fields to extract: ${customSchema.fields.join(', ')}
+Fields to extract:
+${fields.map(field => this.describeField(field)).join('\n')}
 
-Format your response as JSON using the field names provided. Include a "confidence" field (0.0-1.0).`;
+Format your response as JSON using the field names provided. Use null for fields that are not mentioned. Include a "confidence" field (0.0-1.0).
+
+${EVIDENCE_INSTRUCTIONS}`;
     }
 
-    // Comprehensive extraction for all automotive data
-    return basePrompt + `Extract ALL available information from the transcription. Include any fields that apply, leave others empty (""):
-
-CUSTOMER INFORMATION:
-- customer_name: Customer's name if mentioned
-- contact_info: Phone, email, or address if mentioned
-- service_requests: What services were requested
-
-VEHICLE INFORMATION:
-- vin: VIN number if mentioned
-- vehicle_type: Standard, Commercial, etc.
-- type: Pickup, Sedan, SUV, etc.
-- year: Vehicle year
-- make: Vehicle manufacturer (e.g., Chevrolet, Ford)
-- model: Full model name and trim
-- body_style: Body style description (e.g., "2-Door Pickup")
-- engine: Engine specifications
-- interior_color: Interior color
-- exterior_color: Exterior color
-- paint_code: Paint code if mentioned
-- trim_code: Trim code if mentioned
-- license_plate: License plate number
-- license_state: License plate state
-- license_expiration: License expiration date
-- job_number: Job or work order number
-- production_date: Vehicle production date
-- mileage_in: Mileage when vehicle arrived
-- mileage_out: Mileage when vehicle completed
-- fuel_level: Fuel level (Full, Half, Quarter, etc.)
-
-DAMAGE & ASSESSMENT:
-- repairable_condition: Overall vehicle condition (Good, Fair, Poor)
-- primary_impact: Primary point of impact
-- secondary_impact: Secondary point of impact if any
-- drivable_status: Whether vehicle is drivable
-- impact_notes: Description of damage areas and impact details
-- prior_damage_notes: Any prior damage noted
-- problem_description: What the customer reported as the issue
-- diagnosis: What the technician found during inspection
-
-REPAIR WORK:
-- repairs_performed: Specific repair work done
-- labor_type: Type of labor required (body, mechanical, paint)
-- tasks_performed: List of specific tasks done
-- time_per_task: Time spent on each task
-- total_hours: Total labor time
-- labor_time: Time spent on different tasks
-- difficulty_level: How complex the work was (easy/medium/hard)
-- technician_notes: Any notes about the work performed
-
-PARTS & OPERATIONS:
-- parts_used: Parts replaced or installed
-- part_numbers: Specific part numbers mentioned
-- part_descriptions: Description of parts used
-- quantities: How many of each part
-- suppliers: Where parts were sourced from
-- costs: Part costs if mentioned
-- installation_notes: Any special installation requirements
-- paint_needed: Whether paint is needed and type/code
-- operation_notes: Additional operation notes
-- estimate_line: Estimate line item number
-- operation_type: Type of operation (Replace, Repair, Refinish)
-- operation_description: Description of repair operation
-- quantity: Quantity of parts or hours
-- unit_price: Unit price for parts or hourly rate
-- estimated_total: Total estimated cost
-
-RECOMMENDATIONS:
-- recommendations: Future maintenance suggestions
-
-Format your response as JSON with these exact field names. Leave fields empty ("") if not mentioned in the transcription. Include a "confidence" field (0.0-1.0) indicating your confidence in the extraction.`;
+    const template = EXTRACTION_TEMPLATES[extractionType];
+    const sections = Object.entries(template.categories).map(([category, fields]) =>
+      `${category.replace(/_/g, ' ').toUpperCase()}:\n${fields.map(field => this.describeField(field)).join('\n')}`
+    );
+
+    return basePrompt + `${template.instructions}
+
+${sections.join('\n\n')}
+
+Format your response as JSON with these exact field names and value types. Numbers must be plain JSON numbers without units, lists must be JSON arrays, and enum fields must use one of the listed values. Use null (or [] for lists) if not mentioned in the transcription. Include a "confidence" field (0.0-1.0) indicating your confidence in the extraction.
+
+${EVIDENCE_INSTRUCTIONS}`;
+  }
+
+  private describeField(field: FieldSpec): string {
+    return `- ${field.name}: ${field.description || field.name.replace(/_/g, ' ')} (${describeFieldType(field)}${field.required ? ', required' : ''})`;
+  }
+
+  private buildCorrectionPrompt(errors: FieldValidationError[]): string {
+    const problems = errors.map(error => `- ${error.field}: ${error.message}`).join('\n');
+    return `Your previous response did not match the required field types:
+${problems}
+
+Return the complete JSON object again with these fields corrected. Use null if a value cannot be determined.`;
   }
 
   // Utility method to validate extracted data
@@ -267,6 +398,13 @@ Format your response as JSON with these exact field names. Leave fields empty ("
     return hasRequiredFields && result.confidence > 0.3;
   }
 
+  static describeFailure(result: ExtractionResult): string {
+    if (result.validationErrors?.length) {
+      return `invalid fields: ${result.validationErrors.map(error => `${error.field} (${error.message})`).join(', ')}`;
+    }
+    return result.extractedData.error || 'Unknown error';
+  }
+
   // Method to estimate extraction cost
   static estimateExtractionCost(transcriptionLength: number): number {
     // Rough cost estimate based on token usage
@@ -0,0 +1,148 @@
+export type EstimateIssue = 'line_total_mismatch' | 'total_mismatch' | 'hours_mismatch' | 'missing_rate';
+
+export interface EstimateRates {
+  labor?: number;
+  refinish?: number;
+}
+
+export interface EstimateLineTotals {
+  line: number; // The spoken line number, or the position in the list
+  parts: number;
+  labor: number | null; // null when hours were given but no rate is known
+  refinish: number | null;
+  total: number;
+}
+
+export interface EstimateTotals {
+  parts: number;
+  laborHours: number;
+  refinishHours: number;
+  labor: number;
+  refinish: number;
+  total: number;
+}
+
+export interface EstimateFlag {
+  field: string;
+  issue: EstimateIssue;
+  spoken?: number;
+  computed?: number;
+  message: string;
+}
+
+export interface EstimateReport {
+  lines: EstimateLineTotals[];
+  totals: EstimateTotals;
+  rates: { labor: number | null; refinish: number | null };
+  complete: boolean; // False when some hours could not be priced, so the totals are a lower bound
+  flags: EstimateFlag[];
+}
+
+// Spoken amounts are often rounded ("about twelve hundred"), so allow a dollar or one percent
+const moneyMatches = (spoken: number, computed: number): boolean =>
+  Math.abs(spoken - computed) <= Math.max(1, spoken * 0.01);
+
+const HOURS_TOLERANCE = 0.1;
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+const asNumber = (value: unknown): number | null => (typeof value === 'number' && !Number.isNaN(value) ? value : null);
+
+const priceHours = (hours: number | null, rate: number | null): number | null => {
+  if (!hours) {
+    return 0;
+  }
+  return rate === null ? null : roundCents(hours * rate);
+};
+
+/**
+ * Recompute the estimate from its line items and compare it with what was said. Rates spoken in the
+ * note win over the shop's configured rates. Returns undefined when the extraction has no line items.
+ */
+export const reconcileEstimate = (data: Record<string, any>, shopRates: EstimateRates = {}): EstimateReport | undefined => {
+  if (!Array.isArray(data.estimate_lines) || data.estimate_lines.length === 0) {
+    return undefined;
+  }
+
+  const rates = {
+    labor: asNumber(data.labor_rate) ?? shopRates.labor ?? null,
+    refinish: asNumber(data.refinish_rate) ?? shopRates.refinish ?? null
+  };
+  const flags: EstimateFlag[] = [];
+  const totals: EstimateTotals = { parts: 0, laborHours: 0, refinishHours: 0, labor: 0, refinish: 0, total: 0 };
+  let complete = true;
+
+  const lines = data.estimate_lines.map((item: Record<string, any>, index: number): EstimateLineTotals => {
+    const quantity = asNumber(item.quantity) ?? 1;
+    const unitPrice = asNumber(item.unit_price);
+    const laborHours = asNumber(item.labor_hours) ?? 0;
+    const refinishHours = asNumber(item.refinish_hours) ?? 0;
+
+    const parts = unitPrice === null ? 0 : roundCents(quantity * unitPrice);
+    const labor = priceHours(laborHours, rates.labor);
+    const refinish = priceHours(refinishHours, rates.refinish);
+    const total = roundCents(parts + (labor ?? 0) + (refinish ?? 0));
+
+    totals.parts += parts;
+    totals.laborHours += laborHours;
+    totals.refinishHours += refinishHours;
+    totals.labor += labor ?? 0;
+    totals.refinish += refinish ?? 0;
+
+    const priced = labor !== null && refinish !== null;
+    complete = complete && priced;
+
+    const spoken = asNumber(item.line_total);
+    if (spoken !== null && priced && !moneyMatches(spoken, total)) {
+      flags.push({
+        field: `estimate_lines.${index}.line_total`,
+        issue: 'line_total_mismatch',
+        spoken,
+        computed: total,
+        message: `Line adds up to ${total.toFixed(2)} but ${spoken.toFixed(2)} was said`
+      });
+    }
+
+    return { line: asNumber(item.line_number) ?? index + 1, parts, labor, refinish, total };
+  });
+
+  totals.parts = roundCents(totals.parts);
+  totals.laborHours = roundCents(totals.laborHours);
+  totals.refinishHours = roundCents(totals.refinishHours);
+  totals.labor = roundCents(totals.labor);
+  totals.refinish = roundCents(totals.refinish);
+  totals.total = roundCents(totals.parts + totals.labor + totals.refinish);
+
+  if (totals.laborHours && rates.labor === null) {
+    flags.push({ field: 'labor_rate', issue: 'missing_rate', message: 'Labor hours were given but no labor rate is known' });
+  }
+  if (totals.refinishHours && rates.refinish === null) {
+    flags.push({ field: 'refinish_rate', issue: 'missing_rate', message: 'Refinish hours were given but no refinish rate is known' });
+  }
+
+  // An incomplete total would always look short, so only compare once every line could be priced
+  const spokenTotal = asNumber(data.estimated_total);
+  if (spokenTotal !== null && complete && !moneyMatches(spokenTotal, totals.total)) {
+    flags.push({
+      field: 'estimated_total',
+      issue: 'total_mismatch',
+      spoken: spokenTotal,
+      computed: totals.total,
+      message: `Line items add up to ${totals.total.toFixed(2)} but ${spokenTotal.toFixed(2)} was said`
+    });
+  }
+
+  const spokenHours = asNumber(data.total_hours);
+  const computedHours = roundCents(totals.laborHours + totals.refinishHours);
+  if (spokenHours !== null && computedHours > 0 && Math.abs(spokenHours - computedHours) > HOURS_TOLERANCE) {
+    flags.push({
+      field: 'total_hours',
+      issue: 'hours_mismatch',
+      spoken: spokenHours,
+      computed: computedHours,
+      message: `Line items add up to ${computedHours} hours but ${spokenHours} was said`
+    });
+  }
+
+  return { lines, totals, rates, complete, flags };
+};
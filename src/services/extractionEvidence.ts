@@ -0,0 +1,125 @@
+import { TranscriptionSegment } from './speechToText';
+import { SpeakerRole } from './speakerRoles';
+
+export interface FieldEvidence {
+  confidence: number;
+  quote?: string;
+  span?: { start: number; end: number }; // Character offsets into the transcription text
+  time?: { start: number; end: number }; // Seconds into the audio, from the transcription segments
+  spokenBy?: SpeakerRole; // Role of the speaker the quote came from, when diarized
+  verified: boolean; // The quote was found in the transcription
+}
+
+interface RawEvidence {
+  quote?: unknown;
+  confidence?: unknown;
+}
+
+// Confidence ceiling for fields whose quote cannot be found in the transcription
+const UNVERIFIED_CONFIDENCE_CAP = 0.5;
+
+// Confidence used when the model gives a quote but no score
+const DEFAULT_FIELD_CONFIDENCE = 0.6;
+
+const hasValue = (value: unknown): boolean =>
+  value !== null && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+const clampConfidence = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || Number.isNaN(number)) {
+    return null;
+  }
+  return Math.min(1, Math.max(0, number));
+};
+
+// Case- and whitespace-insensitive search that returns offsets into the original text
+export const findQuote = (text: string, quote: string): { start: number; end: number } | null => {
+  const words = quote.trim().split(/\s+/).filter(Boolean).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0) {
+    return null;
+  }
+
+  const match = new RegExp(words.join('\\s+'), 'i').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+// Locate each segment's text in the full transcription so character spans can be mapped to audio time
+const locateSegments = (text: string, segments: TranscriptionSegment[]) => {
+  const located: Array<{ start: number; end: number; segment: TranscriptionSegment }> = [];
+  let cursor = 0;
+
+  for (const segment of segments) {
+    const span = findQuote(text.slice(cursor), segment.text);
+    if (!span) {
+      continue;
+    }
+    located.push({ start: cursor + span.start, end: cursor + span.end, segment });
+    cursor += span.end;
+  }
+
+  return located;
+};
+
+const toTimeRange = (
+  span: { start: number; end: number },
+  located: ReturnType<typeof locateSegments>
+): { start: number; end: number } | undefined => {
+  const overlapping = located.filter(entry => entry.start < span.end && entry.end > span.start);
+  if (overlapping.length === 0) {
+    return undefined;
+  }
+  return {
+    start: overlapping[0].segment.start,
+    end: overlapping[overlapping.length - 1].segment.end
+  };
+};
+
+// The role behind a quote, when every segment it spans belongs to the same identified speaker
+const toSpeakerRole = (
+  span: { start: number; end: number },
+  located: ReturnType<typeof locateSegments>
+): SpeakerRole | undefined => {
+  const roles = new Set(located.filter(entry => entry.start < span.end && entry.end > span.start).map(entry => entry.segment.role));
+  const [role] = roles;
+  return roles.size === 1 ? role : undefined;
+};
+
+export const buildFieldEvidence = (
+  extractedData: Record<string, any>,
+  rawEvidence: unknown,
+  transcription: string,
+  segments?: TranscriptionSegment[]
+): Record<string, FieldEvidence> => {
+  const evidenceByField = (rawEvidence && typeof rawEvidence === 'object' ? rawEvidence : {}) as Record<string, RawEvidence>;
+  const located = segments?.length ? locateSegments(transcription, segments) : [];
+  const fields: Record<string, FieldEvidence> = {};
+
+  for (const [name, value] of Object.entries(extractedData)) {
+    if (name === 'confidence' || !hasValue(value)) {
+      continue;
+    }
+
+    const raw = evidenceByField[name] || {};
+    const quote = typeof raw.quote === 'string' && raw.quote.trim() ? raw.quote.trim() : undefined;
+    const span = quote ? findQuote(transcription, quote) : null;
+    const confidence = clampConfidence(raw.confidence) ?? DEFAULT_FIELD_CONFIDENCE;
+
+    fields[name] = {
+      confidence: span ? confidence : Math.min(confidence, UNVERIFIED_CONFIDENCE_CAP),
+      ...(quote && { quote }),
+      ...(span && { span, time: toTimeRange(span, located), spokenBy: toSpeakerRole(span, located) }),
+      verified: Boolean(span)
+    };
+  }
+
+  return fields;
+};
+
+// Overall score when the model does not give one: the mean of the field scores
+export const averageConfidence = (fields: Record<string, FieldEvidence>): number => {
+  const scores = Object.values(fields).map(field => field.confidence);
+  if (scores.length === 0) {
+    return 0;
+  }
+  return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100;
+};
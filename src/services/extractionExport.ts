@@ -0,0 +1,354 @@
+import { v4 as uuidv4 } from 'uuid';
+import { StoredExtraction } from '../repositories/extractionRepository';
+import { Shop } from '../repositories/shopRepository';
+
+export const EXPORT_FORMATS = ['bms', 'csv', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const BMS_DOCUMENTS = ['estimate', 'repair_order'] as const;
+export type BmsDocument = typeof BMS_DOCUMENTS[number];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  document?: BmsDocument; // BMS only
+}
+
+export interface ExportedFile {
+  contentType: string;
+  filename: string;
+  body: string;
+}
+
+// One line of work in the normalized export, whatever extraction type it came from
+export interface NormalizedLine {
+  lineNumber: number;
+  operation: string | null;
+  description: string | null;
+  partName: string | null;
+  partNumber: string | null;
+  quantity: number | null;
+  unitPrice: number | null;
+  laborHours: number | null;
+  refinishHours: number | null;
+  total: number | null;
+}
+
+export interface NormalizedExtraction {
+  version: 1;
+  id: string;
+  createdAt: string;
+  extractionType: string;
+  shop: { id: string; name: string } | null;
+  source: { provider?: string; extractor?: string; model?: string; confidence: number };
+  customer: { name: string | null; contact: string | null };
+  vehicle: {
+    vin: string | null;
+    year: number | null;
+    make: string | null;
+    model: string | null;
+    bodyStyle: string | null;
+    color: string | null;
+    paintCode: string | null;
+    licensePlate: string | null;
+    licenseState: string | null;
+    mileageIn: number | null;
+    mileageOut: number | null;
+  };
+  jobNumber: string | null;
+  lines: NormalizedLine[];
+  totals: {
+    parts: number;
+    laborHours: number;
+    refinishHours: number;
+    labor: number;
+    refinish: number;
+    total: number;
+    spoken: number | null;
+  } | null;
+  flags: Array<{ field: string; issue: string; message: string }>;
+  fields: Record<string, unknown>; // Everything that was extracted, as stored
+}
+
+// CIECA labor operation codes for the operations the extractor recognizes
+const BMS_OPERATIONS: Record<string, string> = {
+  'Replace': 'OP11',
+  'Repair': 'OP9',
+  'Refinish': 'OP6',
+  'Remove/Install': 'OP2',
+  'Blend': 'OP15',
+  'Sublet': 'OP16',
+  'Other': 'OP14'
+};
+
+const text = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value);
+
+const num = (value: unknown): number | null => (typeof value === 'number' && !Number.isNaN(value) ? value : null);
+
+// Estimate lines when present, otherwise the parts or labor task lists of the focused extraction types
+const toLines = (data: Record<string, any>): NormalizedLine[] => {
+  if (Array.isArray(data.estimate_lines) && data.estimate_lines.length) {
+    return data.estimate_lines.map((line: Record<string, any>, index: number) => ({
+      lineNumber: num(line.line_number) ?? index + 1,
+      operation: text(line.operation),
+      description: text(line.description),
+      partName: text(line.part_name),
+      partNumber: text(line.part_number),
+      quantity: num(line.quantity),
+      unitPrice: num(line.unit_price),
+      laborHours: num(line.labor_hours),
+      refinishHours: num(line.refinish_hours),
+      total: num(line.line_total)
+    }));
+  }
+
+  if (Array.isArray(data.parts) && data.parts.length) {
+    return data.parts.map((part: Record<string, any>, index: number) => ({
+      lineNumber: index + 1,
+      operation: text(part.operation_type),
+      description: text(part.description),
+      partName: text(part.name),
+      partNumber: text(part.part_number),
+      quantity: num(part.quantity),
+      unitPrice: num(part.unit_cost),
+      laborHours: null,
+      refinishHours: null,
+      total: null
+    }));
+  }
+
+  if (Array.isArray(data.tasks) && data.tasks.length) {
+    return data.tasks.map((task: Record<string, any>, index: number) => ({
+      lineNumber: index + 1,
+      operation: null,
+      description: text(task.description),
+      partName: null,
+      partNumber: null,
+      quantity: null,
+      unitPrice: null,
+      laborHours: num(task.hours),
+      refinishHours: null,
+      total: null
+    }));
+  }
+
+  return [];
+};
+
+export const normalizeExtraction = (record: StoredExtraction, shop: Shop | null): NormalizedExtraction => {
+  const { result } = record;
+  const data = result.extractedData;
+
+  return {
+    version: 1,
+    id: record.id,
+    createdAt: record.createdAt,
+    extractionType: record.extractionType,
+    shop: shop ? { id: shop.id, name: shop.name } : null,
+    source: { provider: result.provider, extractor: result.extractor, model: result.model, confidence: result.confidence },
+    customer: { name: text(data.customer_name), contact: text(data.contact_info) },
+    vehicle: {
+      vin: text(data.vin),
+      year: num(data.year),
+      make: text(data.make),
+      model: text(data.model),
+      bodyStyle: text(data.body_style),
+      color: text(data.exterior_color),
+      paintCode: text(data.paint_code),
+      licensePlate: text(data.license_plate),
+      licenseState: text(data.license_state),
+      mileageIn: num(data.mileage_in),
+      mileageOut: num(data.mileage_out)
+    },
+    jobNumber: text(data.job_number),
+    lines: toLines(data),
+    totals: result.estimate ? { ...result.estimate.totals, spoken: num(data.estimated_total) } : null,
+    flags: [...(result.normalization?.flags || []), ...(result.estimate?.flags || [])].map(flag => ({
+      field: flag.field,
+      issue: flag.issue,
+      message: flag.message
+    })),
+    fields: data
+  };
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Small builder so empty values drop out instead of producing empty elements
+class XmlWriter {
+  private lines: string[] = [];
+  private depth = 0;
+
+  open(tag: string, attributes = ''): this {
+    this.lines.push(`${'  '.repeat(this.depth)}<${tag}${attributes}>`);
+    this.depth++;
+    return this;
+  }
+
+  close(tag: string): this {
+    this.depth--;
+    this.lines.push(`${'  '.repeat(this.depth)}</${tag}>`);
+    return this;
+  }
+
+  leaf(tag: string, value: unknown): this {
+    if (value !== null && value !== undefined && value !== '') {
+      this.lines.push(`${'  '.repeat(this.depth)}<${tag}>${escapeXml(String(value))}</${tag}>`);
+    }
+    return this;
+  }
+
+  toString(): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${this.lines.join('\n')}\n`;
+  }
+}
+
+/**
+ * CIECA BMS-style document. Covers the parts of VehicleDamageEstimateAddRq / RepairOrderAddRq that a
+ * voice note can fill: admin info, vehicle, damage lines and totals. Other BMS sections are left out.
+ */
+const toBms = (normalized: NormalizedExtraction, document: BmsDocument): string => {
+  const root = document === 'estimate' ? 'VehicleDamageEstimateAddRq' : 'RepairOrderAddRq';
+  const { vehicle, customer } = normalized;
+  const xml = new XmlWriter();
+
+  xml.open(root, ' xmlns="http://www.cieca.com/BMS"')
+    .leaf('RqUID', uuidv4())
+    .open('DocumentInfo')
+    .leaf('BMSVer', '5.2.0')
+    .leaf('DocumentType', document === 'estimate' ? 'E' : 'RO')
+    .leaf('DocumentID', normalized.id)
+    .leaf('CreateDateTime', normalized.createdAt)
+    .close('DocumentInfo');
+
+  if (normalized.jobNumber) {
+    xml.open('RefClaimNum').leaf('ClaimNum', normalized.jobNumber).close('RefClaimNum');
+  }
+
+  xml.open('AdminInfo');
+  if (customer.name || customer.contact) {
+    xml.open('Owner').open('Party')
+      .open('PersonInfo').open('PersonName').leaf('FirstName', customer.name).close('PersonName').close('PersonInfo');
+    if (customer.contact) {
+      xml.open('ContactInfo').open('Communications')
+        .leaf('CommQualifier', customer.contact.includes('@') ? 'EM' : 'CP')
+        .leaf(customer.contact.includes('@') ? 'CommEmail' : 'CommPhone', customer.contact)
+        .close('Communications').close('ContactInfo');
+    }
+    xml.close('Party').close('Owner');
+  }
+  if (normalized.shop) {
+    xml.open('RepairFacility').open('Party').open('OrgInfo').leaf('CompanyName', normalized.shop.name).close('OrgInfo').close('Party').close('RepairFacility');
+  }
+  xml.close('AdminInfo');
+
+  xml.open('VehicleInfo');
+  if (vehicle.vin) {
+    xml.open('VINInfo').open('VIN').leaf('VINNum', vehicle.vin).close('VIN').close('VINInfo');
+  }
+  if (vehicle.licensePlate || vehicle.licenseState) {
+    xml.open('License').leaf('LicensePlateNum', vehicle.licensePlate).leaf('LicensePlateStateProvince', vehicle.licenseState).close('License');
+  }
+  xml.open('VehicleDesc')
+    .leaf('ModelYear', vehicle.year)
+    .leaf('MakeDesc', vehicle.make)
+    .leaf('ModelName', vehicle.model)
+    .leaf('BodyStyle', vehicle.bodyStyle);
+  if (vehicle.mileageIn !== null) {
+    xml.open('OdometerInfo').leaf('OdometerReading', vehicle.mileageIn).leaf('OdometerReadingMeasure', 'MI').close('OdometerInfo');
+  }
+  xml.close('VehicleDesc');
+  if (vehicle.color || vehicle.paintCode) {
+    xml.open('Paint').open('Exterior').open('Color').leaf('ColorName', vehicle.color).leaf('OEMColorCode', vehicle.paintCode).close('Color').close('Exterior').close('Paint');
+  }
+  xml.close('VehicleInfo');
+
+  for (const line of normalized.lines) {
+    xml.open('DamageLineInfo')
+      .leaf('LineNum', line.lineNumber)
+      .leaf('LineDesc', line.description || line.partName);
+    if (line.partName || line.partNumber || line.unitPrice !== null) {
+      xml.open('PartInfo')
+        .leaf('PartDesc', line.partName)
+        .leaf('PartNum', line.partNumber)
+        .leaf('PartPrice', line.unitPrice)
+        .leaf('Quantity', line.quantity ?? (line.unitPrice !== null ? 1 : null))
+        .close('PartInfo');
+    }
+    if (line.laborHours !== null || line.operation) {
+      xml.open('LaborInfo')
+        .leaf('LaborType', 'LAB')
+        .leaf('LaborOperation', line.operation ? BMS_OPERATIONS[line.operation] : null)
+        .leaf('LaborHours', line.laborHours)
+        .close('LaborInfo');
+    }
+    if (line.refinishHours !== null) {
+      xml.open('RefinishLaborInfo').leaf('LaborType', 'LAR').leaf('LaborHours', line.refinishHours).close('RefinishLaborInfo');
+    }
+    xml.close('DamageLineInfo');
+  }
+
+  if (normalized.totals) {
+    const { totals } = normalized;
+    xml.open('RepairTotalsInfo')
+      .open('LaborTotalsInfo').leaf('TotalType', 'LAB').leaf('TotalHours', totals.laborHours).leaf('TotalAmt', totals.labor).close('LaborTotalsInfo')
+      .open('LaborTotalsInfo').leaf('TotalType', 'LAR').leaf('TotalHours', totals.refinishHours).leaf('TotalAmt', totals.refinish).close('LaborTotalsInfo')
+      .open('PartsTotalsInfo').leaf('TotalType', 'PAT').leaf('TotalAmt', totals.parts).close('PartsTotalsInfo')
+      .open('SummaryTotalsInfo').leaf('TotalType', 'TOT').leaf('TotalAmt', totals.total).close('SummaryTotalsInfo')
+      .close('RepairTotalsInfo');
+  }
+
+  xml.close(root);
+  return xml.toString();
+};
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = Array.isArray(value) ? value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join('; ')
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Numbers are written as they are so negative amounts stay numeric
+  const cell = typeof value !== 'number' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+const csvRows = (rows: unknown[][]): string => rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+// One row per line item with the vehicle repeated, or field/value pairs when there are no lines
+const toCsv = (normalized: NormalizedExtraction): string => {
+  if (normalized.lines.length === 0) {
+    return csvRows([
+      ['field', 'value'],
+      ...Object.entries(normalized.fields).filter(([name]) => name !== 'confidence').map(([name, value]) => [name, value])
+    ]);
+  }
+
+  const { vehicle } = normalized;
+  return csvRows([
+    ['extraction_id', 'job_number', 'vin', 'year', 'make', 'model', 'line_number', 'operation', 'description',
+      'part_name', 'part_number', 'quantity', 'unit_price', 'labor_hours', 'refinish_hours', 'line_total'],
+    ...normalized.lines.map(line => [
+      normalized.id, normalized.jobNumber, vehicle.vin, vehicle.year, vehicle.make, vehicle.model,
+      line.lineNumber, line.operation, line.description, line.partName, line.partNumber, line.quantity,
+      line.unitPrice, line.laborHours, line.refinishHours, line.total
+    ])
+  ]);
+};
+
+export const exportExtraction = (record: StoredExtraction, shop: Shop | null, options: ExportOptions): ExportedFile => {
+  const normalized = normalizeExtraction(record, shop);
+
+  switch (options.format) {
+    case 'bms':
+      return { contentType: 'application/xml', filename: `${record.id}.xml`, body: toBms(normalized, options.document || 'estimate') };
+    case 'csv':
+      return { contentType: 'text/csv', filename: `${record.id}.csv`, body: toCsv(normalized) };
+    default:
+      return { contentType: 'application/json', filename: `${record.id}.json`, body: JSON.stringify(normalized, null, 2) };
+  }
+};
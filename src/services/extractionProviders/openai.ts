@@ -0,0 +1,56 @@
+import OpenAI from 'openai';
+import { ExtractionProvider, ExtractionProviderRequest, ExtractionProviderResponse } from './registry';
+
+// Shared by the hosted OpenAI provider and OpenAI-compatible local servers
+export const completeChat = async (
+  client: OpenAI,
+  model: string,
+  request: ExtractionProviderRequest,
+  jsonMode: boolean
+): Promise<ExtractionProviderResponse> => {
+  const completion = await client.chat.completions.create({
+    model,
+    messages: request.messages,
+    temperature: 0.1, // Low temperature for consistent extractions
+    ...(jsonMode && { response_format: { type: 'json_object' as const } })
+  });
+
+  const content = completion.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error('No response from extraction model');
+  }
+
+  return {
+    content,
+    model: completion.model || model,
+    tokens: {
+      prompt: completion.usage?.prompt_tokens || 0,
+      completion: completion.usage?.completion_tokens || 0,
+      total: completion.usage?.total_tokens || 0
+    }
+  };
+};
+
+export class OpenAIExtractionProvider implements ExtractionProvider {
+  readonly name = 'openai';
+  readonly kind = 'llm';
+  readonly description = 'OpenAI chat models (gpt-4o-mini by default)';
+
+  private client?: OpenAI;
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  async complete(request: ExtractionProviderRequest): Promise<ExtractionProviderResponse> {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY environment variable is required');
+    }
+
+    this.client ??= new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+
+    return completeChat(this.client, request.model || process.env.OPENAI_EXTRACTION_MODEL || 'gpt-4o-mini', request, true);
+  }
+}
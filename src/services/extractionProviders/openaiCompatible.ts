@@ -0,0 +1,34 @@
+import OpenAI from 'openai';
+import { completeChat } from './openai';
+import { ExtractionProvider, ExtractionProviderRequest, ExtractionProviderResponse } from './registry';
+
+// Any server that speaks the OpenAI chat completions API: llama.cpp, Ollama, vLLM, LM Studio
+export class OpenAICompatibleExtractionProvider implements ExtractionProvider {
+  readonly name = 'openai-compatible';
+  readonly kind = 'llm';
+  readonly description = 'Self-hosted model behind an OpenAI-compatible API (llama.cpp, Ollama, vLLM)';
+
+  private client?: OpenAI;
+
+  isConfigured(): boolean {
+    return !!process.env.LOCAL_LLM_BASE_URL && !!process.env.LOCAL_LLM_MODEL;
+  }
+
+  async complete(request: ExtractionProviderRequest): Promise<ExtractionProviderResponse> {
+    const baseURL = process.env.LOCAL_LLM_BASE_URL;
+    const model = request.model || process.env.LOCAL_LLM_MODEL;
+    if (!baseURL || !model) {
+      throw new Error('LOCAL_LLM_BASE_URL and LOCAL_LLM_MODEL environment variables are required');
+    }
+
+    this.client ??= new OpenAI({
+      baseURL,
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'not-needed', // Local servers usually ignore the key
+      timeout: parseInt(process.env.LOCAL_LLM_TIMEOUT_MS || '120000', 10)
+    });
+
+    // Some servers reject response_format; the prompt asks for JSON either way
+    const jsonMode = process.env.LOCAL_LLM_JSON_MODE !== 'false';
+    return completeChat(this.client, model, request, jsonMode);
+  }
+}
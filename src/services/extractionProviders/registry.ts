@@ -0,0 +1,71 @@
+import { FieldSpec } from '../extractionSchemas';
+import { SpeakerTurn } from '../speakerRoles';
+import { OpenAIExtractionProvider } from './openai';
+import { OpenAICompatibleExtractionProvider } from './openaiCompatible';
+import { RuleBasedExtractionProvider } from './ruleBased';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ExtractionProviderRequest {
+  messages: ChatMessage[];
+  // The raw inputs behind the prompt, for providers that do not read prompts
+  transcription: string;
+  speakerTurns?: SpeakerTurn[]; // Set when diarized speakers have been given roles
+  fields: FieldSpec[];
+  model?: string;
+}
+
+export interface ExtractionProviderResponse {
+  content: string; // JSON text in the shape the prompt asks for
+  model: string;
+  tokens?: {
+    prompt: number;
+    completion: number;
+    total: number;
+  };
+}
+
+// Whether a provider asks a language model or applies deterministic rules
+export type ExtractorKind = 'llm' | 'rules';
+
+// Contract every extraction backend implements
+export interface ExtractionProvider {
+  readonly name: string;
+  readonly kind: ExtractorKind;
+  readonly description: string;
+  // Whether the credentials/configuration the provider needs are present
+  isConfigured(): boolean;
+  complete(request: ExtractionProviderRequest): Promise<ExtractionProviderResponse>;
+}
+
+const providers = new Map<string, ExtractionProvider>();
+
+export const registerExtractionProvider = (provider: ExtractionProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+export const getExtractionProvider = (name: string): ExtractionProvider | undefined =>
+  providers.get(name);
+
+export const hasExtractionProvider = (name: string): boolean => providers.has(name);
+
+export const listExtractionProviders = (): Array<{ name: string; kind: ExtractorKind; description: string; configured: boolean }> =>
+  Array.from(providers.values()).map(provider => ({
+    name: provider.name,
+    kind: provider.kind,
+    description: provider.description,
+    configured: provider.isConfigured()
+  }));
+
+export const DEFAULT_EXTRACTION_PROVIDER = process.env.EXTRACTION_PROVIDER || 'openai';
+
+// Used when the chosen provider errors out (unreachable, unconfigured); 'none' disables the fallback
+export const FALLBACK_EXTRACTION_PROVIDER = process.env.EXTRACTION_FALLBACK_PROVIDER || 'rule-based';
+
+// Built-in providers
+registerExtractionProvider(new OpenAIExtractionProvider());
+registerExtractionProvider(new OpenAICompatibleExtractionProvider());
+registerExtractionProvider(new RuleBasedExtractionProvider());
@@ -0,0 +1,216 @@
+import { RuleBasedExtractionProvider } from './ruleBased';
+import { COMPREHENSIVE_FIELDS, EXTRACTION_TEMPLATES, FieldSpec, getTemplateFields } from '../extractionSchemas';
+import { SpeakerTurn } from '../speakerRoles';
+
+const COMPREHENSIVE = COMPREHENSIVE_FIELDS;
+const PARTS_INVENTORY = getTemplateFields(EXTRACTION_TEMPLATES.parts_inventory);
+
+interface Extracted {
+  [field: string]: unknown;
+  _evidence: Record<string, { quote: string; confidence: number }>;
+}
+
+const extract = async (transcription: string, fields: FieldSpec[] = COMPREHENSIVE, speakerTurns?: SpeakerTurn[]): Promise<Extracted> => {
+  const response = await new RuleBasedExtractionProvider().complete({ messages: [], transcription, speakerTurns, fields });
+  expect(response.model).toBe('rule-based');
+  return JSON.parse(response.content);
+};
+
+// Output without the evidence block, for comparing against a fixture's expected fields
+const fieldsOf = ({ _evidence, ...fields }: Extracted) => fields;
+
+describe('RuleBasedExtractionProvider', () => {
+  describe('vehicle', () => {
+    it.each([
+      ['2019 Ford F-150 came in with a cracked grille.', { year: 2019, make: 'Ford', model: 'F-150' }, '2019 Ford F-150'],
+      ['Customer dropped off a twenty eighteen Chevy Silverado.', { year: 2018, make: 'Chevrolet', model: 'Silverado' }, 'twenty eighteen Chevy Silverado'],
+      ['two thousand and nine Honda Civic, rear bumper.', { year: 2009, make: 'Honda', model: 'Civic' }, 'two thousand and nine Honda Civic'],
+      ['The Ram 2500 needs a tailgate.', { make: 'Ram', model: '2500' }, 'Ram 2500'],
+      ['Toyota truck with a bent rocker.', { make: 'Toyota' }, 'Toyota']
+    ])('reads %j', async (transcription, expected, quote) => {
+      const result = await extract(transcription, COMPREHENSIVE.filter(field => ['year', 'make', 'model'].includes(field.name)));
+
+      expect(fieldsOf(result)).toEqual(expected);
+      expect(result._evidence.make).toEqual({ quote, confidence: 0.8 });
+    });
+  });
+
+  describe('mileage', () => {
+    it('separates mileage in from mileage out', async () => {
+      const result = await extract('Mileage in is 45,210 and mileage out was 45,236.');
+
+      expect(result.mileage_in).toBe(45210);
+      expect(result.mileage_out).toBe(45236);
+      expect(result._evidence.mileage_out).toEqual({ quote: 'mileage out was 45,236', confidence: 0.7 });
+    });
+
+    it('reads spoken odometer readings', async () => {
+      const result = await extract('Odometer reads eighty seven thousand four hundred.');
+
+      expect(result.mileage_in).toBe(87400);
+      expect(result.mileage_out).toBeUndefined();
+    });
+
+    it('falls back to a number followed by miles', async () => {
+      const result = await extract('It has about 120000 miles on it.');
+
+      expect(result.mileage_in).toBe(120000);
+      expect(result._evidence.mileage_in).toEqual({ quote: '120000 miles', confidence: 0.6 });
+    });
+
+    it('ignores readings too small to be an odometer', async () => {
+      const result = await extract('Drove it 5 miles to test.');
+
+      expect(result.mileage_in).toBeUndefined();
+    });
+  });
+
+  describe('VIN', () => {
+    it('takes a written VIN with a valid check digit', async () => {
+      const result = await extract('VIN 1hgcm82633a004352, customer wants an estimate.');
+
+      expect(result.vin).toBe('1HGCM82633A004352');
+      expect(result._evidence.vin).toEqual({ quote: '1hgcm82633a004352', confidence: 0.9 });
+    });
+
+    it('decodes a VIN spelled out after the word VIN', async () => {
+      const result = await extract('VIN is one hotel golf charlie mike eight two six three three alpha zero zero four three five two. Thanks.');
+
+      expect(result.vin).toBe('1HGCM82633A004352');
+      expect(result._evidence.vin.confidence).toBe(0.6);
+    });
+
+    it('keeps a VIN with a bad check digit at low confidence', async () => {
+      const result = await extract('VIN 1HGCM82643A004352.');
+
+      expect(result.vin).toBe('1HGCM82643A004352');
+      expect(result._evidence.vin.confidence).toBe(0.3);
+    });
+
+    it('does not hold VINs from outside North America to the check digit', async () => {
+      const result = await extract('VIN WVWZZZ1JZXW000001.');
+
+      expect(result.vin).toBe('WVWZZZ1JZXW000001');
+      expect(result._evidence.vin.confidence).toBe(0.9);
+    });
+
+    it('skips a spelled-out VIN that is not 17 characters', async () => {
+      const result = await extract('VIN is one hotel golf charlie mike eight two.');
+
+      expect(result.vin).toBeUndefined();
+    });
+  });
+
+  describe('hours', () => {
+    it('takes an explicit total', async () => {
+      const result = await extract('Two hours body, one and a half hours paint, total of 3.5 hours.');
+
+      expect(result.total_hours).toBe(3.5);
+      expect(result._evidence.total_hours).toEqual({ quote: 'total of 3.5 hours', confidence: 0.7 });
+    });
+
+    it('adds up individual mentions at lower confidence', async () => {
+      const result = await extract('Two hours body and 1.5 hrs refinish.');
+
+      expect(result.total_hours).toBe(3.5);
+      expect(result._evidence.total_hours).toEqual({ quote: 'Two hours', confidence: 0.4 });
+    });
+
+    it('takes a single mention as the total', async () => {
+      const result = await extract('Alignment took half an hour, then 4 hours on the frame.');
+
+      expect(result.total_hours).toBe(4);
+      expect(result._evidence.total_hours.confidence).toBe(0.6);
+    });
+  });
+
+  describe('fuel level', () => {
+    it.each([
+      ['Fuel level is at a quarter.', 'quarter'],
+      ['Gas tank reads three-quarters.', 'three quarters'],
+      ['Came in with half a tank.', 'half'],
+      ['Tank is about 1/8.', '1/8'],
+      ['It was running on empty tank.', 'empty']
+    ])('reads %j', async (transcription, expected) => {
+      const result = await extract(transcription);
+
+      expect(result.fuel_level).toBe(expected);
+    });
+
+    it('leaves fuel level out when it is not mentioned', async () => {
+      const result = await extract('Replaced the battery.');
+
+      expect(result.fuel_level).toBeUndefined();
+    });
+  });
+
+  describe('parts', () => {
+    const transcription = 'Replaced the front bumper cover, two headlights and the left front fender. Also the driver side mirror and four tires.';
+
+    it('lists parts used by their canonical names with positions', async () => {
+      const result = await extract(transcription);
+
+      expect(result.parts_used).toEqual(['front bumper cover', 'headlamp', 'left front fender', 'driver side mirror', 'tire']);
+      expect(result._evidence.parts_used).toEqual({ quote: 'front bumper cover', confidence: 0.6 });
+    });
+
+    it('records quantities said before a part', async () => {
+      const result = await extract(transcription, PARTS_INVENTORY);
+
+      expect(fieldsOf(result)).toEqual({
+        parts: [
+          { name: 'front bumper cover', quantity: null },
+          { name: 'headlamp', quantity: 2 },
+          { name: 'left front fender', quantity: null },
+          { name: 'driver side mirror', quantity: null },
+          { name: 'tire', quantity: 4 }
+        ]
+      });
+    });
+
+    it('lists each part once', async () => {
+      const result = await extract('Hood is dented, the hood needs refinish, and the grill is cracked.');
+
+      expect(result.parts_used).toEqual(['hood', 'grille']);
+    });
+  });
+
+  it('fills a full write-up from one transcript', async () => {
+    const result = await extract(
+      'This is a 2021 Toyota Camry, VIN 4T1G11AK5MU123456. Mileage in 32,500. Fuel at half. ' +
+      'Replace the rear bumper cover and one tail light, 2.5 hours body and 1.5 hours paint.'
+    );
+
+    expect(fieldsOf(result)).toEqual({
+      vin: '4T1G11AK5MU123456',
+      year: 2021,
+      make: 'Toyota',
+      model: 'Camry',
+      mileage_in: 32500,
+      total_hours: 4,
+      fuel_level: 'half',
+      parts_used: ['rear bumper cover', 'tail lamp']
+    });
+    expect(Object.keys(result._evidence).sort()).toEqual(Object.keys(fieldsOf(result)).sort());
+  });
+
+  it('only fills the fields it was asked for', async () => {
+    const result = await extract('2019 Ford F-150, mileage 60,000.', COMPREHENSIVE.filter(field => field.name === 'make'));
+
+    expect(result).toEqual({ make: 'Ford', _evidence: { make: { quote: '2019 Ford F-150', confidence: 0.8 } } });
+  });
+
+  it('fills what each role said once speakers are identified', async () => {
+    const turns: SpeakerTurn[] = [
+      { speaker: 'SPEAKER_0', role: 'customer', text: 'It pulls to the right when I brake.', start: 0, end: 3 },
+      { speaker: 'SPEAKER_1', role: 'technician', text: 'Front left caliper is seized.', start: 3, end: 6 },
+      { speaker: 'SPEAKER_0', role: 'customer', text: 'And it squeals.', start: 6, end: 7 }
+    ];
+
+    const result = await extract(turns.map(turn => turn.text).join(' '), COMPREHENSIVE, turns);
+
+    expect(result.problem_description).toBe('It pulls to the right when I brake. And it squeals.');
+    expect(result.diagnosis).toBe('Front left caliper is seized.');
+    expect(result._evidence.problem_description).toEqual({ quote: 'It pulls to the right when I brake.', confidence: 0.5 });
+  });
+});
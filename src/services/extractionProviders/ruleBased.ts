@@ -0,0 +1,371 @@
+import { decodeSpokenCharacters } from '../identifierNormalization';
+import { NUMBER_PHRASE, YEAR_PHRASE, parseSpokenNumber, parseSpokenYear } from '../spokenNumbers';
+import { VIN_PATTERN, decodeVin } from '../vinDecoder';
+import { ExtractionProvider, ExtractionProviderRequest, ExtractionProviderResponse } from './registry';
+import { SpeakerRole, SpeakerTurn } from '../speakerRoles';
+
+interface RuleMatch {
+  value: unknown;
+  quote: string;
+  confidence?: number; // Overrides the rule's default when a match is weaker than usual
+}
+
+interface ExtractionRule {
+  field: string;
+  confidence: number;
+  extract(text: string): RuleMatch | null;
+}
+
+const MAKES = [
+  'Acura', 'Audi', 'BMW', 'Buick', 'Cadillac', 'Chevrolet', 'Chevy', 'Chrysler', 'Dodge', 'Fiat', 'Ford',
+  'Genesis', 'GMC', 'Honda', 'Hyundai', 'Infiniti', 'Jaguar', 'Jeep', 'Kia', 'Land Rover', 'Lexus', 'Lincoln',
+  'Mazda', 'Mercedes-Benz', 'Mercedes', 'MINI', 'Mitsubishi', 'Nissan', 'Porsche', 'Ram', 'Subaru', 'Tesla',
+  'Toyota', 'Volkswagen', 'VW', 'Volvo'
+];
+
+// Nicknames said in the shop, mapped to the make as it appears on the VIN decode
+const MAKE_NICKNAMES: Record<string, string> = { chevy: 'Chevrolet', vw: 'Volkswagen', mercedes: 'Mercedes-Benz' };
+
+// Words that follow a make in speech but are not model names
+const NOT_MODELS = new Set(['with', 'that', 'and', 'the', 'is', 'was', 'has', 'had', 'in', 'for', 'truck', 'car', 'vehicle', 'came', 'here']);
+
+// Canonical part names and the ways they are said; specific names come before the general ones they contain
+const PARTS: Array<[string, string]> = [
+  ['bumper cover', 'bumper (?:cover|fascia)'],
+  ['bumper reinforcement', 'bumper (?:reinforcement|rebar)'],
+  ['energy absorber', '(?:energy )?absorber'],
+  ['radiator support', 'radiator (?:support|core support)'],
+  ['quarter panel', 'quarter panel'],
+  ['rocker panel', 'rocker(?: panel)?'],
+  ['door handle', 'door handle'],
+  ['door shell', 'door shell'],
+  ['door', 'door'],
+  ['headlamp', 'head ?(?:lamp|light)'],
+  ['tail lamp', 'tail ?(?:lamp|light)'],
+  ['fog lamp', 'fog ?(?:lamp|light)'],
+  ['side mirror', '(?:side |door )?mirror'],
+  ['windshield', 'windshield'],
+  ['back glass', 'back glass'],
+  ['bumper', 'bumper'],
+  ['grille', 'grille?'],
+  ['hood', 'hood'],
+  ['fender liner', 'fender liner|inner fender'],
+  ['fender', 'fender'],
+  ['tailgate', 'tailgate'],
+  ['liftgate', 'liftgate'],
+  ['trunk lid', 'trunk lid|deck ?lid'],
+  ['splash shield', 'splash (?:shield|guard)'],
+  ['emblem', 'emblem'],
+  ['molding', 'moulding|molding'],
+  ['airbag', 'air ?bag'],
+  ['radiator', 'radiator'],
+  ['condenser', 'a/?c condenser|condenser'],
+  ['wheel bearing', 'wheel bearing'],
+  ['wheel', 'wheel|rim'],
+  ['tire', 'tire|tyre'],
+  ['brake pads', 'brake pad|pad'],
+  ['rotor', 'brake rotor|rotor'],
+  ['caliper', 'brake caliper|caliper'],
+  ['control arm', 'control arm'],
+  ['tie rod end', 'tie rod(?: end)?'],
+  ['strut', 'strut'],
+  ['shock', 'shock(?: absorber)?'],
+  ['cv axle', 'cv axle|axle shaft'],
+  ['battery', 'battery'],
+  ['alternator', 'alternator'],
+  ['starter', 'starter(?: motor)?'],
+  ['water pump', 'water pump'],
+  ['thermostat', 'thermostat'],
+  ['serpentine belt', 'serpentine belt|drive belt'],
+  ['timing belt', 'timing belt'],
+  ['spark plugs', 'spark plug'],
+  ['oil filter', 'oil filter'],
+  ['cabin air filter', 'cabin (?:air )?filter'],
+  ['air filter', 'air filter']
+];
+
+const POSITION = "(?:front|rear|left|right|lh|rh|driver'?s?|passenger'?s?|upper|lower|inner|outer)(?:[\\s-]+side)?";
+
+const PART_PATTERN = new RegExp(
+  `\\b((?:${POSITION}\\s+){0,3})(${PARTS.map(([, spoken]) => `(?:${spoken})`).join('|')})(?:e?s)?\\b`,
+  'gi'
+);
+
+const PART_SPOKEN = PARTS.map(([name, spoken]) => [name, new RegExp(`^(?:${spoken})(?:e?s)?$`, 'i')] as const);
+
+const QUANTITY_BEFORE = new RegExp(`\\b(${NUMBER_PHRASE})\\s+(?:new\\s+|used\\s+|oem\\s+)?$`, 'i');
+
+const VEHICLE_PATTERN = new RegExp(
+  `(?:\\b(${YEAR_PHRASE})\\s+)?\\b(${MAKES.map(make => make.replace(/[-\\s]/g, '[-\\s]?')).join('|')})\\b(?:\\s+([A-Za-z0-9][\\w-]*(?:\\s+\\d{3,4}\\b)?))?`,
+  'i'
+);
+
+const HOURS_PATTERN = new RegExp(`\\b(${NUMBER_PHRASE})\\s*(?:hours?|hrs?)\\b`, 'gi');
+
+const TOTAL_HOURS_PATTERN = new RegExp(
+  `\\btotal(?:\\s+of)?(?:\\s+labor)?(?:\\s+(?:is|was|comes\\s+to|of))?\\s+(${NUMBER_PHRASE})\\s*(?:hours?|hrs?)\\b`,
+  'i'
+);
+
+const MILEAGE_OUT_PATTERN = new RegExp(`\\b(?:mileage|odometer)\\s+out\\s+(?:is\\s+|was\\s+|of\\s+|at\\s+)?(${NUMBER_PHRASE})`, 'i');
+
+const MILEAGE_IN_PATTERNS = [
+  new RegExp(`\\b(?:mileage|odometer)(?:\\s+in)?\\s+(?:is\\s+|was\\s+|of\\s+|at\\s+|reads\\s+|shows\\s+)?(${NUMBER_PHRASE})`, 'i'),
+  new RegExp(`\\b(${NUMBER_PHRASE})\\s*(?:miles|mi\\b)`, 'i')
+];
+
+const FUEL_AMOUNT = "empty|full|(?:a\\s+)?quarter|half|three[\\s-]quarters?|[1357]/8|[13]/4|1/2";
+
+const FUEL_PATTERNS = [
+  new RegExp(`\\b(${FUEL_AMOUNT})(?:\\s+full)?\\s+(?:of\\s+)?(?:an?\\s+|the\\s+)?tank\\b`, 'i'),
+  new RegExp(`\\b(?:fuel(?:\\s+level)?|gas(?:\\s+tank)?|tank)\\s+(?:(?:is|was|at|reads|about|around|roughly)\\s+)*(${FUEL_AMOUNT})\\b`, 'i')
+];
+
+const canonicalMake = (spoken: string): string => {
+  const key = spoken.toLowerCase().replace(/[-\s]/g, '');
+  return MAKE_NICKNAMES[key] || MAKES.find(make => make.toLowerCase().replace(/[-\s]/g, '') === key) || spoken;
+};
+
+const matchVehicle = (text: string) => {
+  const match = VEHICLE_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const model = match[3] && !NOT_MODELS.has(match[3].toLowerCase()) && /^[A-Z0-9]/.test(match[3]) ? match[3] : undefined;
+  const makeEnd = match[0].indexOf(match[2], match[1]?.length ?? 0) + match[2].length;
+  return {
+    quote: model ? match[0].trim() : match[0].slice(0, makeEnd).trim(),
+    year: match[1] ? parseSpokenYear(match[1]) : null,
+    make: canonicalMake(match[2]),
+    model
+  };
+};
+
+// A North American VIN whose check digit does not add up was misheard or misread somewhere
+const BAD_CHECKSUM_CONFIDENCE = 0.3;
+
+const vinMatch = (vin: string, quote: string, confidence?: number): RuleMatch => {
+  const decoding = decodeVin(vin);
+  const mismatch = decoding?.checksumRequired && !decoding.checksumValid;
+  return { value: vin, quote, confidence: mismatch ? BAD_CHECKSUM_CONFIDENCE : confidence };
+};
+
+const findNumber = (text: string, pattern: RegExp, minimum = 0): RuleMatch | null => {
+  const match = pattern.exec(text);
+  if (!match) {
+    return null;
+  }
+  const value = parseSpokenNumber(match[1]);
+  return value !== null && value >= minimum ? { value, quote: match[0] } : null;
+};
+
+interface PartMention {
+  name: string;
+  quantity: number | null;
+  quote: string;
+}
+
+const findParts = (text: string): PartMention[] => {
+  const mentions: PartMention[] = [];
+  const seen = new Set<string>();
+
+  for (const match of text.matchAll(PART_PATTERN)) {
+    const spoken = match[2];
+    const canonical = PART_SPOKEN.find(([, pattern]) => pattern.test(spoken))?.[0] || spoken.toLowerCase();
+    const position = match[1].trim().toLowerCase().replace(/\s+/g, ' ');
+    // "Driver side mirror" names a side mirror without saying "side" twice
+    const words = canonical.split(' ');
+    const name = !position ? canonical
+      : position.endsWith(` ${words[0]}`) && words.length > 1 ? `${position} ${words.slice(1).join(' ')}`
+      : `${position} ${canonical}`;
+    if (seen.has(name)) {
+      continue;
+    }
+    seen.add(name);
+
+    const before = text.slice(Math.max(0, match.index! - 40), match.index);
+    const quantityMatch = QUANTITY_BEFORE.exec(before);
+    const quantity = quantityMatch ? parseSpokenNumber(quantityMatch[1]) : null;
+
+    mentions.push({
+      name,
+      quantity,
+      quote: quantityMatch ? `${quantityMatch[0]}${match[0]}` : match[0]
+    });
+  }
+
+  return mentions;
+};
+
+const RULES: ExtractionRule[] = [
+  {
+    field: 'vin',
+    confidence: 0.9,
+    extract: text => {
+      const written = /\b[A-HJ-NPR-Z0-9]{17}\b/i.exec(text);
+      if (written) {
+        return vinMatch(written[0].toUpperCase(), written[0]);
+      }
+
+      // Spelled out after the word VIN: "VIN is one F T E W ..."
+      const spoken = /\bVIN(?:\s+number)?(?:\s+is)?[:\s]+([^.;\n]+)/i.exec(text);
+      const decoded = spoken ? decodeSpokenCharacters(spoken[1]) : '';
+      return VIN_PATTERN.test(decoded) ? vinMatch(decoded, spoken![0].trim(), 0.6) : null;
+    }
+  },
+  {
+    field: 'year',
+    confidence: 0.7,
+    extract: text => {
+      const vehicle = matchVehicle(text);
+      return vehicle?.year ? { value: vehicle.year, quote: vehicle.quote } : null;
+    }
+  },
+  {
+    field: 'make',
+    confidence: 0.8,
+    extract: text => {
+      const vehicle = matchVehicle(text);
+      return vehicle ? { value: vehicle.make, quote: vehicle.quote } : null;
+    }
+  },
+  {
+    field: 'model',
+    confidence: 0.5,
+    extract: text => {
+      const vehicle = matchVehicle(text);
+      return vehicle?.model ? { value: vehicle.model, quote: vehicle.quote } : null;
+    }
+  },
+  {
+    field: 'mileage_out',
+    confidence: 0.7,
+    extract: text => findNumber(text, MILEAGE_OUT_PATTERN, 10)
+  },
+  {
+    field: 'mileage_in',
+    confidence: 0.6,
+    extract: text => {
+      // Blank out "mileage out ..." so the generic patterns do not pick it up as the mileage in
+      const withoutMileageOut = text.replace(MILEAGE_OUT_PATTERN, match => ' '.repeat(match.length));
+      for (const pattern of MILEAGE_IN_PATTERNS) {
+        const match = findNumber(withoutMileageOut, pattern, 10);
+        if (match) {
+          return match;
+        }
+      }
+      return null;
+    }
+  },
+  {
+    field: 'total_hours',
+    confidence: 0.7,
+    extract: text => {
+      const total = findNumber(text, TOTAL_HOURS_PATTERN);
+      if (total) {
+        return total;
+      }
+
+      // Without an explicit total, add up the individual mentions
+      const mentions = Array.from(text.matchAll(HOURS_PATTERN))
+        .map(match => ({ quote: match[0], hours: parseSpokenNumber(match[1]) }))
+        .filter((mention): mention is { quote: string; hours: number } => mention.hours !== null);
+      if (mentions.length === 0) {
+        return null;
+      }
+      return {
+        value: mentions.reduce((sum, mention) => sum + mention.hours, 0),
+        quote: mentions[0].quote,
+        confidence: mentions.length === 1 ? 0.6 : 0.4
+      };
+    }
+  },
+  {
+    field: 'fuel_level',
+    confidence: 0.7,
+    extract: text => {
+      for (const pattern of FUEL_PATTERNS) {
+        const match = pattern.exec(text);
+        if (match) {
+          // Raw words such as "half" or "three quarters" are mapped onto the enum by the schema's aliases
+          return { value: match[1].toLowerCase().replace(/^a\s+/, '').replace(/-/g, ' '), quote: match[0] };
+        }
+      }
+      return null;
+    }
+  },
+  {
+    field: 'parts_used',
+    confidence: 0.6,
+    extract: text => {
+      const parts = findParts(text);
+      return parts.length ? { value: parts.map(part => part.name), quote: parts[0].quote } : null;
+    }
+  },
+  {
+    field: 'parts',
+    confidence: 0.6,
+    extract: text => {
+      const parts = findParts(text);
+      return parts.length
+        ? { value: parts.map(part => ({ name: part.name, quantity: part.quantity })), quote: parts[0].quote }
+        : null;
+    }
+  }
+];
+
+// Fields that are simply what one role said, filled only when the speakers have been identified
+const SPOKEN_BY_ROLE: Array<{ field: string; role: SpeakerRole }> = [
+  { field: 'problem_description', role: 'customer' },
+  { field: 'diagnosis', role: 'technician' }
+];
+
+const SPOKEN_BY_ROLE_CONFIDENCE = 0.5;
+
+const spokenBy = (turns: SpeakerTurn[], role: SpeakerRole): RuleMatch | null => {
+  const spoken = turns.filter(turn => turn.role === role);
+  return spoken.length
+    ? { value: spoken.map(turn => turn.text).join(' '), quote: spoken[0].text }
+    : null;
+};
+
+// Deterministic extractor built from patterns, dictionaries and number parsing; works offline and without credentials
+export class RuleBasedExtractionProvider implements ExtractionProvider {
+  readonly name = 'rule-based';
+  readonly kind = 'rules';
+  readonly description = 'Offline pattern-based extractor for common vehicle, mileage, labor, fuel and parts fields (no model required)';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: ExtractionProviderRequest): Promise<ExtractionProviderResponse> {
+    const wanted = new Set(request.fields.map(field => field.name));
+    const output: Record<string, unknown> = {};
+    const evidence: Record<string, { quote: string; confidence: number }> = {};
+
+    for (const rule of RULES) {
+      if (!wanted.has(rule.field)) {
+        continue;
+      }
+      const match = rule.extract(request.transcription);
+      if (match) {
+        output[rule.field] = match.value;
+        evidence[rule.field] = { quote: match.quote, confidence: match.confidence ?? rule.confidence };
+      }
+    }
+
+    for (const { field, role } of SPOKEN_BY_ROLE) {
+      const match = wanted.has(field) && request.speakerTurns ? spokenBy(request.speakerTurns, role) : null;
+      if (match) {
+        output[field] = match.value;
+        evidence[field] = { quote: match.quote, confidence: SPOKEN_BY_ROLE_CONFIDENCE };
+      }
+    }
+
+    return {
+      content: JSON.stringify({ ...output, _evidence: evidence }),
+      model: this.name
+    };
+  }
+}
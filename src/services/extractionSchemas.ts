@@ -0,0 +1,424 @@
+import { z } from 'zod';
+import { ExtractionType } from './dataExtraction';
+import { NUMBER_PHRASE, parseSpokenNumber } from './spokenNumbers';
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'enum' | 'string[]' | 'object[]';
+
+export interface FieldSpec {
+  name: string;
+  type: FieldType;
+  description: string;
+  required?: boolean;
+  values?: string[]; // Allowed values for enum fields
+  aliases?: Record<string, string>; // Spoken or shorthand forms mapped onto allowed values
+  min?: number;
+  max?: number;
+  items?: FieldSpec[]; // Shape of each entry for object[] fields
+}
+
+export interface FieldValidationError {
+  field: string;
+  message: string;
+}
+
+const EMPTY_MARKERS = ['', 'n/a', 'na', 'none', 'null', 'unknown', 'not mentioned', 'not specified'];
+
+const isEmpty = (value: unknown): boolean =>
+  value === null || value === undefined ||
+  (typeof value === 'string' && EMPTY_MARKERS.includes(value.trim().toLowerCase()));
+
+// "45,000 miles" -> 45000, "45k" -> 45000, "$1,250.50" -> 1250.5
+const coerceNumber = (value: unknown): unknown => {
+  if (isEmpty(value)) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?\s*(k\b)?/i);
+  if (!match) {
+    // Spelled-out numbers copied from the transcription: "forty five thousand"
+    const spoken = new RegExp(NUMBER_PHRASE, 'i').exec(value);
+    return (spoken && parseSpokenNumber(spoken[0])) ?? value;
+  }
+  const number = parseFloat(match[0]);
+  return match[2] ? number * 1000 : number;
+};
+
+const coerceBoolean = (value: unknown): unknown => {
+  if (isEmpty(value)) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (/^(yes|y|true|drivable|driveable|runs|operational)\b/.test(normalized)) {
+    return true;
+  }
+  if (/^(no|n|false|not\b|non-?drivable|undrivable|inoperable|towed)/.test(normalized)) {
+    return false;
+  }
+  return value;
+};
+
+const coerceEnum = (spec: FieldSpec) => (value: unknown): unknown => {
+  if (isEmpty(value)) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  const direct = spec.values?.find(allowed => allowed.toLowerCase() === normalized);
+  if (direct) {
+    return direct;
+  }
+  const alias = Object.entries(spec.aliases || {}).find(([spoken]) => spoken.toLowerCase() === normalized);
+  return alias ? alias[1] : value;
+};
+
+const coerceString = (value: unknown): unknown => {
+  if (isEmpty(value)) {
+    return null;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  return value;
+};
+
+const coerceStringArray = (value: unknown): unknown => {
+  if (isEmpty(value)) {
+    return [];
+  }
+  if (typeof value === 'string') {
+    return value.split(/\s*[,;\n]\s*/).map(item => item.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value
+      .filter(item => !isEmpty(item))
+      .map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item)));
+  }
+  return value;
+};
+
+const coerceObjectArray = (value: unknown): unknown => {
+  if (isEmpty(value)) {
+    return [];
+  }
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    return [value];
+  }
+  return value;
+};
+
+const buildShape = (fields: FieldSpec[]): z.ZodRawShape => {
+  const shape: z.ZodRawShape = {};
+  for (const field of fields) {
+    shape[field.name] = buildFieldSchema(field);
+  }
+  return shape;
+};
+
+const buildFieldSchema = (spec: FieldSpec): z.ZodTypeAny => {
+  let base: z.ZodTypeAny;
+
+  switch (spec.type) {
+    case 'number':
+    case 'integer': {
+      let number = z.number({ invalid_type_error: `Expected a number for ${spec.name}` });
+      if (spec.type === 'integer') {
+        number = number.int(`Expected a whole number for ${spec.name}`);
+      }
+      if (spec.min !== undefined) {
+        number = number.min(spec.min);
+      }
+      if (spec.max !== undefined) {
+        number = number.max(spec.max);
+      }
+      base = z.preprocess(coerceNumber, spec.required ? number : number.nullable());
+      break;
+    }
+    case 'boolean':
+      base = z.preprocess(coerceBoolean, spec.required ? z.boolean() : z.boolean().nullable());
+      break;
+    case 'enum': {
+      const values = spec.values as [string, ...string[]];
+      const enumSchema = z.enum(values, {
+        errorMap: () => ({ message: `Expected one of: ${values.join(', ')}` })
+      });
+      base = z.preprocess(coerceEnum(spec), spec.required ? enumSchema : enumSchema.nullable());
+      break;
+    }
+    case 'object[]': {
+      const array = z.array(z.object(buildShape(spec.items || [])));
+      base = z.preprocess(coerceObjectArray, spec.required ? array.min(1, `${spec.name} is required`) : array);
+      break;
+    }
+    case 'string[]': {
+      const array = z.array(z.string());
+      base = z.preprocess(coerceStringArray, spec.required ? array.min(1, `${spec.name} is required`) : array);
+      break;
+    }
+    default:
+      base = z.preprocess(coerceString, spec.required ? z.string().min(1, `${spec.name} is required`) : z.string().nullable());
+  }
+
+  return base;
+};
+
+// Build a zod object that coerces model output into the declared field types
+export const buildZodSchema = (fields: FieldSpec[]): z.ZodObject<z.ZodRawShape> => {
+  const shape = buildShape(fields);
+  shape.confidence = z.preprocess(coerceNumber, z.number().min(0).max(1).nullable()).optional();
+  return z.object(shape);
+};
+
+export const describeFieldType = (spec: FieldSpec): string => {
+  switch (spec.type) {
+    case 'enum':
+      return `one of ${spec.values!.join(' | ')}`;
+    case 'string[]':
+      return 'array of strings';
+    case 'object[]':
+      return `array of objects with ${(spec.items || []).map(item => `${item.name} (${describeFieldType(item)})`).join(', ')}`;
+    case 'integer':
+      return 'whole number';
+    default:
+      return spec.type;
+  }
+};
+
+const currentYear = new Date().getFullYear();
+
+const OPERATION_TYPE: FieldSpec = {
+  name: 'operation_type',
+  type: 'enum',
+  description: 'Type of operation',
+  values: ['Replace', 'Repair', 'Refinish', 'Remove/Install', 'Blend', 'Sublet', 'Other'],
+  aliases: {
+    'replaced': 'Replace', 'replacement': 'Replace', 'repaired': 'Repair', 'paint': 'Refinish',
+    'refinished': 'Refinish', 'r&i': 'Remove/Install', 'r and i': 'Remove/Install',
+    'remove and install': 'Remove/Install', 'remove and reinstall': 'Remove/Install', 'blended': 'Blend'
+  }
+};
+
+// Every field the comprehensive extraction can return, grouped as the prompt presents them
+export const COMPREHENSIVE_CATEGORIES: Record<string, FieldSpec[]> = {
+  customer_information: [
+    { name: 'customer_name', type: 'string', description: "Customer's name if mentioned" },
+    { name: 'contact_info', type: 'string', description: 'Phone, email, or address if mentioned' },
+    { name: 'service_requests', type: 'string[]', description: 'What services were requested' }
+  ],
+  vehicle_information: [
+    { name: 'vin', type: 'string', description: 'VIN number if mentioned' },
+    { name: 'vehicle_type', type: 'string', description: 'Standard, Commercial, etc.' },
+    { name: 'type', type: 'string', description: 'Pickup, Sedan, SUV, etc.' },
+    { name: 'year', type: 'integer', description: 'Vehicle model year', min: 1900, max: currentYear + 2 },
+    { name: 'make', type: 'string', description: 'Vehicle manufacturer (e.g., Chevrolet, Ford)' },
+    { name: 'model', type: 'string', description: 'Full model name and trim' },
+    { name: 'body_style', type: 'string', description: 'Body style description (e.g., "2-Door Pickup")' },
+    { name: 'engine', type: 'string', description: 'Engine specifications' },
+    { name: 'interior_color', type: 'string', description: 'Interior color' },
+    { name: 'exterior_color', type: 'string', description: 'Exterior color' },
+    { name: 'paint_code', type: 'string', description: 'Paint code if mentioned' },
+    { name: 'trim_code', type: 'string', description: 'Trim code if mentioned' },
+    { name: 'license_plate', type: 'string', description: 'License plate number' },
+    { name: 'license_state', type: 'string', description: 'License plate state' },
+    { name: 'license_expiration', type: 'string', description: 'License expiration date' },
+    { name: 'job_number', type: 'string', description: 'Job or work order number' },
+    { name: 'production_date', type: 'string', description: 'Vehicle production date' },
+    { name: 'mileage_in', type: 'integer', description: 'Odometer reading when vehicle arrived', min: 0 },
+    { name: 'mileage_out', type: 'integer', description: 'Odometer reading when vehicle completed', min: 0 },
+    {
+      name: 'fuel_level',
+      type: 'enum',
+      description: 'Fuel gauge reading',
+      values: ['Empty', '1/8', '1/4', '3/8', '1/2', '5/8', '3/4', '7/8', 'Full'],
+      aliases: {
+        'e': 'Empty', 'empty tank': 'Empty', 'quarter': '1/4', 'quarter tank': '1/4', 'a quarter': '1/4',
+        'half': '1/2', 'half tank': '1/2', 'three quarters': '3/4', 'three quarter': '3/4',
+        'three-quarters': '3/4', 'f': 'Full', 'full tank': 'Full', 'eighth': '1/8'
+      }
+    }
+  ],
+  damage_assessment: [
+    {
+      name: 'repairable_condition',
+      type: 'enum',
+      description: 'Overall vehicle condition',
+      values: ['Good', 'Fair', 'Poor']
+    },
+    { name: 'primary_impact', type: 'string', description: 'Primary point of impact' },
+    { name: 'secondary_impact', type: 'string', description: 'Secondary point of impact if any' },
+    { name: 'drivable_status', type: 'boolean', description: 'Whether vehicle is drivable' },
+    { name: 'impact_notes', type: 'string', description: 'Description of damage areas and impact details' },
+    { name: 'prior_damage_notes', type: 'string', description: 'Any prior damage noted' },
+    { name: 'problem_description', type: 'string', description: 'What the customer reported as the issue' },
+    { name: 'diagnosis', type: 'string', description: 'What the technician found during inspection' }
+  ],
+  repair_work: [
+    { name: 'repairs_performed', type: 'string', description: 'Specific repair work done' },
+    { name: 'labor_type', type: 'string', description: 'Type of labor required (body, mechanical, paint)' },
+    { name: 'tasks_performed', type: 'string[]', description: 'List of specific tasks done' },
+    { name: 'time_per_task', type: 'string', description: 'Time spent on each task' },
+    { name: 'total_hours', type: 'number', description: 'Total labor time in hours', min: 0 },
+    { name: 'labor_time', type: 'string', description: 'Time spent on different tasks' },
+    {
+      name: 'difficulty_level',
+      type: 'enum',
+      description: 'How complex the work was',
+      values: ['easy', 'medium', 'hard'],
+      aliases: { 'simple': 'easy', 'moderate': 'medium', 'difficult': 'hard', 'complex': 'hard' }
+    },
+    { name: 'technician_notes', type: 'string', description: 'Any notes about the work performed' }
+  ],
+  parts_operations: [
+    { name: 'parts_used', type: 'string[]', description: 'Parts replaced or installed' },
+    { name: 'part_numbers', type: 'string[]', description: 'Specific part numbers mentioned' },
+    { name: 'part_descriptions', type: 'string[]', description: 'Description of parts used' },
+    { name: 'quantities', type: 'string[]', description: 'How many of each part' },
+    { name: 'suppliers', type: 'string[]', description: 'Where parts were sourced from' },
+    { name: 'costs', type: 'string[]', description: 'Part costs if mentioned' },
+    { name: 'installation_notes', type: 'string', description: 'Any special installation requirements' },
+    { name: 'paint_needed', type: 'string', description: 'Whether paint is needed and type/code' },
+    { name: 'operation_notes', type: 'string', description: 'Additional operation notes' },
+    {
+      name: 'estimate_lines',
+      type: 'object[]',
+      description: 'One entry per estimate operation, in the order spoken',
+      items: [
+        { name: 'line_number', type: 'integer', description: 'Estimate line number if mentioned', min: 1 },
+        { ...OPERATION_TYPE, name: 'operation' },
+        { name: 'description', type: 'string', description: 'What the operation is (e.g., "repair left front door")' },
+        { name: 'part_name', type: 'string', description: 'Part involved, if any' },
+        { name: 'part_number', type: 'string', description: 'OEM or aftermarket part number if mentioned' },
+        { name: 'quantity', type: 'number', description: 'How many of the part', min: 0 },
+        { name: 'unit_price', type: 'number', description: 'Price per part', min: 0 },
+        { name: 'labor_hours', type: 'number', description: 'Body, frame or mechanical labor hours', min: 0 },
+        { name: 'refinish_hours', type: 'number', description: 'Paint and refinish hours', min: 0 },
+        { name: 'line_total', type: 'number', description: 'Total for this line if one was spoken', min: 0 }
+      ]
+    },
+    { name: 'labor_rate', type: 'number', description: 'Hourly labor rate if mentioned', min: 0 },
+    { name: 'refinish_rate', type: 'number', description: 'Hourly paint/refinish rate if mentioned', min: 0 },
+    { name: 'estimated_total', type: 'number', description: 'Total estimate amount as spoken', min: 0 }
+  ],
+  recommendations: [
+    { name: 'recommendations', type: 'string[]', description: 'Future maintenance suggestions' }
+  ]
+};
+
+export const COMPREHENSIVE_FIELDS: FieldSpec[] = Object.values(COMPREHENSIVE_CATEGORIES).flat();
+
+const FIELDS_BY_NAME = new Map(COMPREHENSIVE_FIELDS.map(field => [field.name, field]));
+
+const pick = (...names: string[]): FieldSpec[] => names.map(name => FIELDS_BY_NAME.get(name)!);
+
+export interface ExtractionTemplate {
+  description: string;
+  instructions: string;
+  categories: Record<string, FieldSpec[]>;
+}
+
+// Prompt wording and output shape for each built-in extraction type
+export const EXTRACTION_TEMPLATES: Record<Exclude<ExtractionType, 'custom'>, ExtractionTemplate> = {
+  repair_details: {
+    description: 'Extract all available automotive repair and assessment information',
+    instructions: 'Extract ALL available information from the transcription. Include any fields that apply, leave others null:',
+    categories: COMPREHENSIVE_CATEGORIES
+  },
+  parts_inventory: {
+    description: 'Structured list of parts mentioned, with numbers, quantities, suppliers and costs',
+    instructions: 'Extract every part mentioned in the transcription as one entry in the "parts" list. Do not include labor, customer or vehicle details:',
+    categories: {
+      parts: [
+        {
+          name: 'parts',
+          type: 'object[]',
+          description: 'One entry per part replaced, installed, ordered or quoted',
+          items: [
+            { name: 'name', type: 'string', description: 'Part name (e.g., "front bumper cover")' },
+            { name: 'part_number', type: 'string', description: 'OEM or aftermarket part number if mentioned' },
+            { name: 'description', type: 'string', description: 'Additional description of the part' },
+            { name: 'quantity', type: 'number', description: 'How many of this part', min: 0 },
+            { name: 'supplier', type: 'string', description: 'Where the part was sourced from' },
+            { name: 'unit_cost', type: 'number', description: 'Cost per unit if mentioned', min: 0 },
+            { ...OPERATION_TYPE, description: 'What is being done with the part' },
+            { name: 'installation_notes', type: 'string', description: 'Any special installation requirements' }
+          ]
+        }
+      ]
+    }
+  },
+  labor_hours: {
+    description: 'Labor tasks with hours, totals and technician notes',
+    instructions: 'Extract the labor performed or estimated in the transcription. List each task separately in "tasks":',
+    categories: {
+      labor: [
+        {
+          name: 'tasks',
+          type: 'object[]',
+          description: 'One entry per labor task',
+          items: [
+            { name: 'description', type: 'string', description: 'What the task is' },
+            { name: 'labor_type', type: 'string', description: 'Type of labor (body, mechanical, paint, frame)' },
+            { name: 'hours', type: 'number', description: 'Hours spent or estimated for this task', min: 0 },
+            { name: 'technician', type: 'string', description: 'Technician who did the work if mentioned' }
+          ]
+        },
+        ...pick('total_hours', 'difficulty_level', 'technician_notes')
+      ]
+    }
+  },
+  customer_info: {
+    description: 'Customer contact details and the vehicle they brought in',
+    instructions: 'Extract only customer and vehicle identification details from the transcription. Leave fields null if not mentioned:',
+    categories: {
+      customer_information: COMPREHENSIVE_CATEGORIES.customer_information,
+      vehicle_information: pick('vin', 'year', 'make', 'model', 'exterior_color', 'license_plate', 'license_state', 'job_number', 'mileage_in', 'mileage_out')
+    }
+  },
+  damage_assessment: {
+    description: 'Vehicle condition, impact points and damage notes',
+    instructions: 'Extract only the damage assessment from the transcription. Leave fields null if not mentioned:',
+    categories: {
+      damage_assessment: COMPREHENSIVE_CATEGORIES.damage_assessment,
+      refinish: pick('paint_code', 'paint_needed')
+    }
+  }
+};
+
+export const getTemplateFields = (template: ExtractionTemplate): FieldSpec[] =>
+  Object.values(template.categories).flat();
+
+// Public description of a field, as served by /api/extraction/schemas
+export const toFieldDescriptor = (spec: FieldSpec): Record<string, unknown> => ({
+  name: spec.name,
+  type: spec.type,
+  description: spec.description,
+  ...(spec.required && { required: true }),
+  ...(spec.values && { values: spec.values }),
+  ...(spec.min !== undefined && { min: spec.min }),
+  ...(spec.max !== undefined && { max: spec.max }),
+  ...(spec.items && { items: spec.items.map(toFieldDescriptor) })
+});
+
+// Bare custom field names are accepted as nullable strings
+export const customFieldSpecs = (fields: Array<string | FieldSpec>): FieldSpec[] =>
+  fields.map(field =>
+    typeof field === 'string' ? { name: field, type: 'string', description: field.replace(/_/g, ' ') } : field
+  );
+
+export const toFieldErrors = (error: z.ZodError): FieldValidationError[] =>
+  error.errors.map(issue => ({
+    field: issue.path.join('.') || '(root)',
+    message: issue.message
+  }));
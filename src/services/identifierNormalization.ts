@@ -0,0 +1,252 @@
+import { decodeVin, VinDecoding } from './vinDecoder';
+
+export type NormalizationIssue =
+  | 'invalid_format'
+  | 'checksum_mismatch'
+  | 'year_mismatch'
+  | 'make_mismatch'
+  | 'unknown_state';
+
+export interface NormalizationChange {
+  field: string;
+  original: string;
+  normalized: string;
+}
+
+export interface NormalizationFlag {
+  field: string;
+  value: string;
+  issue: NormalizationIssue;
+  message: string;
+}
+
+export interface NormalizationReport {
+  changes: NormalizationChange[];
+  flags: NormalizationFlag[];
+  vin?: VinDecoding;
+}
+
+const NATO_ALPHABET: Record<string, string> = {
+  alpha: 'A', alfa: 'A', bravo: 'B', charlie: 'C', delta: 'D', echo: 'E', foxtrot: 'F', golf: 'G',
+  hotel: 'H', india: 'I', juliet: 'J', juliett: 'J', kilo: 'K', lima: 'L', mike: 'M', november: 'N',
+  oscar: 'O', papa: 'P', quebec: 'Q', romeo: 'R', sierra: 'S', tango: 'T', uniform: 'U', victor: 'V',
+  whiskey: 'W', whisky: 'W', xray: 'X', 'x-ray': 'X', yankee: 'Y', zulu: 'Z'
+};
+
+// Homophones such as "to" or "for" are left alone; they are too often real words
+const SPOKEN_DIGITS: Record<string, string> = {
+  zero: '0', oh: '0', one: '1', two: '2', three: '3', tree: '3', four: '4', fower: '4', five: '5',
+  fife: '5', six: '6', seven: '7', eight: '8', nine: '9', niner: '9'
+};
+
+const REPEATERS: Record<string, number> = { double: 2, triple: 3 };
+
+const US_STATES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC', florida: 'FL', georgia: 'GA',
+  hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY',
+  louisiana: 'LA', maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH',
+  'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+  ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI',
+  'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY'
+};
+
+const STATE_CODES = new Set(Object.values(US_STATES));
+
+const MAKE_ALIASES: Record<string, string> = {
+  chevy: 'chevrolet', vw: 'volkswagen', mercedes: 'mercedesbenz', benz: 'mercedesbenz'
+};
+
+const sameValue = (field: 'year' | 'make', spoken: unknown, decoded: string | number): boolean => {
+  if (field === 'year') {
+    return Number(spoken) === decoded;
+  }
+  const normalize = (make: string) => {
+    const letters = make.toLowerCase().replace(/[^a-z]/g, '');
+    return MAKE_ALIASES[letters] ?? letters;
+  };
+  return normalize(String(spoken)) === normalize(String(decoded));
+};
+
+/**
+ * Turn a spelled-out identifier into characters: "one foxtrot tango double five dash A" -> "1FT55-A".
+ * Tokens that are already characters pass through upper-cased.
+ */
+export const decodeSpokenCharacters = (value: string, keepDashes = false): string => {
+  const tokens = value.toLowerCase().replace(/[,.]/g, ' ').split(/\s+/).filter(Boolean);
+  let output = '';
+  let repeat = 1;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (REPEATERS[token]) {
+      repeat = REPEATERS[token];
+      continue;
+    }
+    // "B as in boy": the letter was already spoken, skip the clarification
+    if (token === 'as' && tokens[i + 1] === 'in') {
+      i += 2;
+      continue;
+    }
+    if (token === 'dash' || token === 'hyphen') {
+      output += keepDashes ? '-' : '';
+      continue;
+    }
+
+    const decoded = NATO_ALPHABET[token] ?? SPOKEN_DIGITS[token] ?? token.toUpperCase().replace(keepDashes ? /[^A-Z0-9-]/g : /[^A-Z0-9]/g, '');
+    output += decoded.length === 1 ? decoded.repeat(repeat) : decoded;
+    repeat = 1;
+  }
+
+  return output;
+};
+
+class Normalizer {
+  readonly report: NormalizationReport = { changes: [], flags: [] };
+
+  constructor(private data: Record<string, any>) {}
+
+  set(field: string, original: string, normalized: string, target: Record<string, any> = this.data, key: string = field): void {
+    if (normalized !== original) {
+      this.report.changes.push({ field, original, normalized });
+    }
+    target[key] = normalized;
+  }
+
+  flag(field: string, value: string, issue: NormalizationIssue, message: string): void {
+    this.report.flags.push({ field, value, issue, message });
+  }
+
+  vin(): void {
+    const original = this.data.vin;
+    if (typeof original !== 'string' || !original) {
+      return;
+    }
+
+    // I, O and Q never appear in VINs; when they do, the speaker meant 1 and 0
+    const vin = decodeSpokenCharacters(original).replace(/I/g, '1').replace(/[OQ]/g, '0');
+    this.set('vin', original, vin);
+
+    const decoding = decodeVin(vin);
+    if (!decoding) {
+      this.flag('vin', vin, 'invalid_format', `VIN must be 17 letters and digits, got ${vin.length}`);
+      return;
+    }
+
+    this.report.vin = decoding;
+    if (!decoding.checksumValid && decoding.checksumRequired) {
+      this.flag('vin', vin, 'checksum_mismatch', `Check digit is ${decoding.checkDigit} but the VIN computes to ${decoding.expectedCheckDigit}`);
+      return; // A misheard VIN decodes to the wrong vehicle, so do not trust it for year or make
+    }
+
+    this.reconcileDecodedValue('year', decoding.modelYear, 'year_mismatch');
+    this.reconcileDecodedValue('make', decoding.manufacturer, 'make_mismatch');
+  }
+
+  // Fill an empty field from the VIN, or flag a disagreement with what was said
+  private reconcileDecodedValue(field: 'year' | 'make', decoded: string | number | undefined, issue: NormalizationIssue): void {
+    if (decoded === undefined || !(field in this.data)) {
+      return;
+    }
+
+    const spoken = this.data[field];
+    if (spoken === null || spoken === undefined || spoken === '') {
+      this.data[field] = decoded;
+      this.report.changes.push({ field, original: '', normalized: String(decoded) });
+      return;
+    }
+
+    if (!sameValue(field, spoken, decoded)) {
+      this.flag(field, String(spoken), issue, `VIN decodes to ${decoded}`);
+    }
+  }
+
+  licensePlate(): void {
+    const original = this.data.license_plate;
+    if (typeof original !== 'string' || !original) {
+      return;
+    }
+
+    const plate = decodeSpokenCharacters(original);
+    this.set('license_plate', original, plate);
+    if (!/^[A-Z0-9]{1,8}$/.test(plate)) {
+      this.flag('license_plate', plate, 'invalid_format', 'License plates are 1-8 letters and digits');
+    }
+  }
+
+  licenseState(): void {
+    const original = this.data.license_state;
+    if (typeof original !== 'string' || !original) {
+      return;
+    }
+
+    const trimmed = original.trim();
+    const state = US_STATES[trimmed.toLowerCase()] ?? trimmed.toUpperCase();
+    this.set('license_state', original, state);
+    if (!STATE_CODES.has(state)) {
+      this.flag('license_state', state, 'unknown_state', 'Not a recognized US state');
+    }
+  }
+
+  paintCode(): void {
+    const original = this.data.paint_code;
+    if (typeof original !== 'string' || !original) {
+      return;
+    }
+
+    const code = decodeSpokenCharacters(original, true);
+    this.set('paint_code', original, code);
+    if (!/^[A-Z0-9][A-Z0-9-]{0,9}$/.test(code)) {
+      this.flag('paint_code', code, 'invalid_format', 'Paint codes are up to 10 letters, digits and dashes');
+    }
+  }
+
+  partNumber(field: string, value: unknown, target: Record<string, any>, key: string): void {
+    if (typeof value !== 'string' || !value) {
+      return;
+    }
+
+    const partNumber = decodeSpokenCharacters(value, true);
+    this.set(field, value, partNumber, target, key);
+    if (!/^[A-Z0-9][A-Z0-9-]{2,24}$/.test(partNumber) || !/\d/.test(partNumber)) {
+      this.flag(field, partNumber, 'invalid_format', 'Part numbers are 3-25 letters, digits and dashes with at least one digit');
+    }
+  }
+
+  partNumbers(): void {
+    if (Array.isArray(this.data.part_numbers)) {
+      this.data.part_numbers.forEach((value: unknown, index: number) =>
+        this.partNumber(`part_numbers.${index}`, value, this.data.part_numbers, String(index))
+      );
+    }
+
+    // Structured parts lists and estimate lines carry one part_number per entry
+    for (const list of ['parts', 'estimate_lines']) {
+      if (Array.isArray(this.data[list])) {
+        this.data[list].forEach((item: Record<string, any>, index: number) =>
+          this.partNumber(`${list}.${index}.part_number`, item?.part_number, item, 'part_number')
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Deterministic clean-up of identifiers after the model has answered. Values are normalized in place
+ * and anything that still fails validation is flagged rather than silently accepted.
+ */
+export const normalizeIdentifiers = (extractedData: Record<string, any>): { data: Record<string, any>; report: NormalizationReport } => {
+  const data = structuredClone(extractedData);
+  const normalizer = new Normalizer(data);
+
+  normalizer.vin();
+  normalizer.licensePlate();
+  normalizer.licenseState();
+  normalizer.paintCode();
+  normalizer.partNumbers();
+
+  return { data, report: normalizer.report };
+};
@@ -0,0 +1,165 @@
+import { Readable } from 'stream';
+import { JobWorker } from './jobQueue';
+import { jobRepository, StoredJob } from '../repositories/jobRepository';
+import { AudioStore } from '../storage/audioStore';
+import { postWebhook } from './webhooks';
+
+jest.mock('../repositories/jobRepository', () => {
+  const actual = jest.requireActual('../repositories/jobRepository');
+  const { MemoryRecordStore } = jest.requireActual('../storage/recordStore');
+  return { ...actual, jobRepository: new actual.JobRepository(new MemoryRecordStore()) };
+});
+
+const mockTranscribe = jest.fn();
+jest.mock('./voicePipeline', () => ({
+  VoicePipelineService: jest.fn().mockImplementation((onStage: (stage: string) => void) => ({
+    transcribe: (...args: unknown[]) => {
+      onStage('transcribing');
+      return mockTranscribe(...args);
+    }
+  }))
+}));
+
+jest.mock('./dataExtraction', () => ({ DataExtractionService: { describeFailure: () => 'failed' } }));
+jest.mock('./webhooks', () => ({ postWebhook: jest.fn().mockResolvedValue(undefined) }));
+
+class FakeAudioStore implements AudioStore {
+  readonly backend = 'local';
+  objects = new Map<string, Buffer>();
+  deleted: string[] = [];
+
+  async put(key: string, data: Buffer): Promise<void> {
+    this.objects.set(key, data);
+  }
+
+  async read(key: string): Promise<Readable | null> {
+    const data = this.objects.get(key);
+    return data ? Readable.from([data]) : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.deleted.push(key);
+    this.objects.delete(key);
+  }
+}
+
+const waitFor = async (condition: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+const jobStatus = async (id: string): Promise<StoredJob['status'] | undefined> => (await jobRepository.findById(id))?.status;
+
+describe('JobWorker', () => {
+  const workers: JobWorker[] = [];
+  let store: FakeAudioStore;
+
+  const startWorker = (leaseMs: number): JobWorker => {
+    const worker = new JobWorker(store, 1, leaseMs, 3);
+    workers.push(worker);
+    worker.start();
+    return worker;
+  };
+
+  beforeEach(() => {
+    store = new FakeAudioStore();
+    process.env.JOB_POLL_INTERVAL_MS = '60000';
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    workers.splice(0).forEach(worker => worker.stop());
+    jest.restoreAllMocks();
+    mockTranscribe.mockReset();
+    (postWebhook as jest.Mock).mockClear();
+  });
+
+  const enqueue = async (): Promise<StoredJob> => {
+    const job = await jobRepository.create({
+      shopId: 'shop-1',
+      userId: 'user-1',
+      fileName: 'note.webm',
+      mimeType: 'audio/webm',
+      fileSize: 5,
+      options: { model: 'whisper', timestamp: true, speakerDiarization: false },
+      callbackUrl: 'https://example.com/hook',
+      audioKey: `jobs/shop-1/${Date.now()}`
+    });
+    await store.put(job.audioKey, Buffer.from('audio'));
+    return job;
+  };
+
+  it('runs a claimed job, delivers its callback and removes the recording', async () => {
+    mockTranscribe.mockResolvedValue({ id: 'transcription-1' });
+    const job = await enqueue();
+
+    startWorker(60000);
+    await waitFor(() => store.deleted.includes(job.audioKey));
+
+    const finished = await jobRepository.findById(job.id);
+    expect(finished).toMatchObject({ status: 'done', transcriptionId: 'transcription-1', attempts: 1, workerId: undefined });
+    expect(finished!.history.map(entry => entry.status)).toEqual(['queued', 'uploading', 'transcribing', 'done']);
+    expect(postWebhook).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves the job to the worker that reclaimed its expired lease', async () => {
+    let finishFirstRun: (value: unknown) => void = () => undefined;
+    mockTranscribe
+      .mockImplementationOnce(() => new Promise(resolve => { finishFirstRun = resolve; }))
+      .mockResolvedValueOnce({ id: 'transcription-2' });
+    const job = await enqueue();
+
+    // The first worker stalls in transcription and its renewals stop reaching the store
+    const renew = jobRepository.renewLease.bind(jobRepository);
+    const renewLease = jest.spyOn(jobRepository, 'renewLease');
+    const first = startWorker(60);
+    renewLease.mockImplementation((id, workerId, leaseMs) =>
+      workerId === first.id ? new Promise<boolean>(() => undefined) : renew(id, workerId, leaseMs)
+    );
+    await waitFor(() => mockTranscribe.mock.calls.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 80));
+
+    startWorker(60000);
+    await waitFor(async () => await jobStatus(job.id) === 'done');
+    await waitFor(() => store.deleted.length === 1);
+
+    const reclaimed = await jobRepository.findById(job.id);
+    expect(reclaimed).toMatchObject({ attempts: 2, transcriptionId: 'transcription-2' });
+    expect(postWebhook).toHaveBeenCalledTimes(1);
+
+    // Once it wakes up the first worker finds the lease gone and writes nothing
+    renewLease.mockRestore();
+    finishFirstRun({ id: 'transcription-1' });
+    await waitFor(() => (console.warn as jest.Mock).mock.calls.some(([message]) => String(message).includes('Lost the lease')));
+
+    const final = await jobRepository.findById(job.id);
+    expect(final).toEqual(reclaimed);
+    expect(final!.history.filter(entry => entry.status === 'done')).toHaveLength(1);
+    expect(postWebhook).toHaveBeenCalledTimes(1);
+    expect(store.deleted).toEqual([job.audioKey]);
+  });
+
+  it('stops a run whose heartbeat finds the lease taken', async () => {
+    let finishRun: (value: unknown) => void = () => undefined;
+    mockTranscribe.mockImplementationOnce(() => new Promise(resolve => { finishRun = resolve; }));
+    const job = await enqueue();
+    const renewLease = jest.spyOn(jobRepository, 'renewLease').mockResolvedValue(false);
+
+    startWorker(30);
+    await waitFor(() => mockTranscribe.mock.calls.length === 1 && renewLease.mock.calls.length > 0);
+    finishRun({ id: 'transcription-1' });
+    await waitFor(() => (console.warn as jest.Mock).mock.calls.some(([message]) => String(message).includes('Lost the lease')));
+
+    const stopped = await jobRepository.findById(job.id);
+    expect(stopped?.transcriptionId).toBeUndefined();
+    expect(stopped?.status).toBe('transcribing');
+    expect(postWebhook).not.toHaveBeenCalled();
+    expect(store.deleted).toEqual([]);
+  });
+});
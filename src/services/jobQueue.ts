@@ -0,0 +1,255 @@
+import os from 'os';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { jobRepository, JobStatus, NewJob, StoredJob } from '../repositories/jobRepository';
+import { AudioStore, jobAudioStore } from '../storage/audioStore';
+import { VoicePipelineService } from './voicePipeline';
+import { DataExtractionService } from './dataExtraction';
+import { describeHttpError } from './transcriptionProviders/http';
+import { postWebhook } from './webhooks';
+
+export interface EnqueueJobRequest extends Omit<NewJob, 'audioKey'> {
+  audioBuffer: Buffer;
+}
+
+// Whether the worker still holds a job's lease, as last seen by its heartbeat or a conditional write
+interface Lease {
+  lost: boolean;
+}
+
+class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost the lease on job ${jobId}`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+const readAll = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// The job and its recording are stored before the request returns, so any worker sharing the stores can run it
+export class TranscriptionJobQueue {
+  constructor(private store: AudioStore = jobAudioStore) {}
+
+  async enqueue(request: EnqueueJobRequest): Promise<StoredJob> {
+    const { audioBuffer, ...jobData } = request;
+    const id = `job_${uuidv4()}`;
+    const audioKey = `jobs/${jobData.shopId}/${id}`;
+
+    await this.store.put(audioKey, audioBuffer, jobData.mimeType);
+    const job = await jobRepository.create({ ...jobData, id, audioKey });
+
+    // A worker in this process picks the job up straight away instead of at its next poll
+    jobWorker.poll();
+    return job;
+  }
+}
+
+/**
+ * Runs queued jobs. Each job is claimed with a lease that the worker renews while it runs; a job whose
+ * worker died is picked up again once the lease runs out, and failed after JOB_MAX_ATTEMPTS tries.
+ * Every status write is conditional on still holding the lease, so a worker that lost it stops
+ * at its next step and leaves the result, callback and recording to the worker that took over.
+ */
+export class JobWorker {
+  readonly id = `worker_${os.hostname()}_${process.pid}_${uuidv4().slice(0, 8)}`;
+  private active = 0;
+  private polling = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private store: AudioStore = jobAudioStore,
+    private concurrency: number = parseInt(process.env.JOB_CONCURRENCY || '2') || 2,
+    private leaseMs: number = (parseInt(process.env.JOB_LEASE_SECONDS || '300') || 300) * 1000,
+    private maxAttempts: number = parseInt(process.env.JOB_MAX_ATTEMPTS || '3') || 3
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    const intervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000') || 2000;
+    this.timer = setInterval(() => this.poll(), intervalMs);
+    this.poll();
+  }
+
+  // Stops claiming new jobs; those already running finish
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Claim jobs until the worker is busy or none are waiting
+  poll(): void {
+    if (!this.timer || this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    const claim = async (): Promise<void> => {
+      while (this.timer && this.active < this.concurrency) {
+        const job = await jobRepository.claimNext(this.id, this.leaseMs);
+        if (!job) {
+          return;
+        }
+
+        this.active++;
+        this.run(job)
+          .catch(error => console.error(`Job ${job.id} crashed:`, error))
+          .finally(() => {
+            this.active--;
+            this.poll();
+          });
+      }
+    };
+
+    claim()
+      .catch(error => console.error('Failed to claim jobs:', error))
+      .finally(() => {
+        this.polling = false;
+      });
+  }
+
+  private async run(job: StoredJob): Promise<void> {
+    const lease: Lease = { lost: false };
+    const heartbeat = setInterval(() => {
+      jobRepository.renewLease(job.id, this.id, this.leaseMs)
+        .then(renewed => {
+          if (!renewed) {
+            lease.lost = true;
+          }
+        })
+        .catch(error => console.error(`Failed to renew the lease on job ${job.id}:`, error));
+    }, this.leaseMs / 3);
+
+    try {
+      const finished = job.attempts > this.maxAttempts
+        ? await jobRepository.transition(job.id, this.id, 'failed', {
+          error: `The job was interrupted ${job.attempts - 1} times before it could finish; please upload the recording again`
+        })
+        : await this.process(job, lease);
+
+      // The worker that took the job over delivers the callback and removes the recording
+      if (!finished) {
+        console.warn(`Lost the lease on job ${job.id} to another worker; dropping this run`);
+        return;
+      }
+      await this.deliverCallback(finished);
+      await this.store.delete(job.audioKey);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // The finished job, or null when the lease was lost before the result could be written
+  private async process(claimed: StoredJob, lease: Lease): Promise<StoredJob | null> {
+    const jobId = claimed.id;
+    // Writes are skipped once the heartbeat has seen the lease go, and are conditional on it otherwise
+    const whileHeld = async <T>(write: () => Promise<T | null | false>): Promise<T> => {
+      const written = lease.lost ? null : await write();
+      if (!written) {
+        lease.lost = true;
+        throw new LeaseLostError(jobId);
+      }
+      return written;
+    };
+
+    try {
+      const recording = await this.store.read(claimed.audioKey);
+      if (!recording) {
+        throw new Error('The recording for this job is no longer available; please upload it again');
+      }
+      const audioBuffer = await readAll(recording);
+
+      // Stage transitions are chained so they land in the order the pipeline reports them
+      let progress: Promise<unknown> = Promise.resolve();
+      const advance = (status: JobStatus): void => {
+        progress = progress.then(() => whileHeld(() => jobRepository.transition(jobId, this.id, status)));
+        // Awaited below; this only keeps a lease lost mid-stage from being reported as unhandled
+        progress.catch(() => undefined);
+      };
+      advance('uploading');
+      const pipeline = new VoicePipelineService(advance);
+
+      const audio = {
+        shopId: claimed.shopId,
+        userId: claimed.userId,
+        audioBuffer,
+        fileName: claimed.fileName,
+        mimeType: claimed.mimeType,
+        fileSize: claimed.fileSize,
+        options: claimed.options
+      };
+
+      const startTime = Date.now();
+      const transcription = await pipeline.transcribe(audio);
+      await progress;
+      await whileHeld(() => jobRepository.link(jobId, this.id, { transcriptionId: transcription.id }));
+
+      if (!claimed.extractionType) {
+        return await whileHeld(() => jobRepository.transition(jobId, this.id, 'done'));
+      }
+
+      const { note, extraction } = await pipeline.completeNote(transcription, claimed.extractionType, claimed.customSchema, startTime);
+      await progress;
+
+      const links = { extractionId: extraction.id, repairNoteId: note.id };
+      return await whileHeld(() => extraction.result.success
+        ? jobRepository.transition(jobId, this.id, 'done', links)
+        : jobRepository.transition(jobId, this.id, 'failed', {
+          ...links,
+          error: `Extraction failed: ${DataExtractionService.describeFailure(extraction.result)}`
+        }));
+    } catch (error) {
+      if (lease.lost) {
+        return null;
+      }
+      console.error(`Job ${jobId} failed:`, error);
+      return jobRepository.transition(jobId, this.id, 'failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private async deliverCallback(job: StoredJob): Promise<void> {
+    if (!job.callback) {
+      return;
+    }
+
+    const maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '3') || 3;
+    const body = JSON.stringify({ event: `job.${job.status}`, job });
+
+    const callback = { ...job.callback };
+    while (callback.attempts < maxAttempts) {
+      callback.attempts++;
+      try {
+        await postWebhook(callback.url, body);
+        callback.status = 'delivered';
+        callback.deliveredAt = new Date().toISOString();
+        callback.lastError = undefined;
+        break;
+      } catch (error) {
+        callback.status = 'failed';
+        callback.lastError = describeHttpError(error);
+        console.warn(`Webhook delivery for job ${job.id} failed (attempt ${callback.attempts}):`, callback.lastError);
+
+        if (callback.attempts < maxAttempts) {
+          await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (callback.attempts - 1)));
+        }
+      }
+    }
+
+    await jobRepository.updateCallback(job.id, callback);
+  }
+}
+
+export const transcriptionJobQueue = new TranscriptionJobQueue();
+
+export const jobWorker = new JobWorker();
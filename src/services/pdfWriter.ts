@@ -0,0 +1,164 @@
+export type RgbColor = [number, number, number]; // 0-1 per channel
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: RgbColor;
+}
+
+// US Letter in points
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+// Typographic replacements for characters outside WinAnsi that show up in transcripts
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '–': '-', '—': '-', '…': '...', '•': '*'
+};
+
+const toWinAnsi = (value: string): string =>
+  value
+    .replace(/[‘’“”–—…•]/g, char => REPLACEMENTS[char])
+    .replace(/[^\x20-\xFF]/g, '?');
+
+const escapePdfString = (value: string): string => toWinAnsi(value).replace(/([\\()])/g, '\\$1');
+
+const formatNumber = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+const colorOperands = (color: RgbColor): string => color.map(formatNumber).join(' ');
+
+// Average Helvetica glyph widths per 1000 units, close enough for wrapping and right-aligning
+const glyphWidth = (char: string): number => {
+  if (char === ' ') return 278;
+  if (/[il.,:;'|!]/.test(char)) return 250;
+  if (/[fjrt()\-/]/.test(char)) return 333;
+  if (/[mw]/.test(char)) return 833;
+  if (/[MW]/.test(char)) return 900;
+  if (/[A-Z]/.test(char)) return 680;
+  if (/[0-9$]/.test(char)) return 556;
+  return 530;
+};
+
+export const measureText = (value: string, size: number, bold = false): number =>
+  (toWinAnsi(value).split('').reduce((sum, char) => sum + glyphWidth(char), 0) * size * (bold ? 1.06 : 1)) / 1000;
+
+// Greedy word wrap; words longer than the width are broken mid-word
+export const wrapText = (value: string, width: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of value.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      line = word;
+      while (measureText(line, size, bold) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && measureText(line.slice(0, cut), size, bold) > width) {
+          cut--;
+        }
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+/**
+ * Minimal PDF 1.4 writer for text, lines and filled rectangles using the built-in Helvetica fonts,
+ * so reports can be rendered without a native or headless-browser dependency. Coordinates are in
+ * points from the top-left corner of the page.
+ */
+export class PdfWriter {
+  private pages: string[][] = [];
+  private current = -1;
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  // Switch back to an earlier page, e.g. to stamp page numbers once the page count is known
+  setPage(index: number): void {
+    this.current = index;
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    this.ops().push(
+      'BT',
+      `${colorOperands(options.color ?? [0, 0, 0])} rg`,
+      `/${options.bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf`,
+      `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - size)} Td`,
+      `(${escapePdfString(value)}) Tj`,
+      'ET'
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: RgbColor = [0, 0, 0], width = 0.5): void {
+    this.ops().push(
+      `${colorOperands(color)} RG`,
+      `${formatNumber(width)} w`,
+      `${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: RgbColor): void {
+    this.ops().push(
+      `${colorOperands(fill)} rg`,
+      `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((ops, index) => {
+      const content = ops.join('\n');
+      objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+      objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private ops(): string[] {
+    if (this.current === -1) {
+      this.addPage();
+    }
+    return this.pages[this.current];
+  }
+}
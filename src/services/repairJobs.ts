@@ -0,0 +1,205 @@
+import { extractionRepository, StoredExtraction } from '../repositories/extractionRepository';
+import { FieldObservation, MergedField, repairJobRepository, StoredRepairJob } from '../repositories/repairJobRepository';
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Case and spacing differences between notes are not disagreements
+const comparable = (value: unknown): string =>
+  typeof value === 'string' ? value.trim().replace(/\s+/g, ' ').toLowerCase() : JSON.stringify(value);
+
+const unionList = (current: unknown[], incoming: unknown[]): unknown[] => {
+  const seen = new Set(current.map(comparable));
+  const merged = [...current];
+  for (const item of incoming) {
+    const key = comparable(item);
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(item);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Fold a job's extractions, oldest first, into one record. Lists such as parts_used or estimate_lines
+ * grow with every note; single values take the latest note's value and are marked as a conflict when
+ * notes disagree. Empty values never overwrite, so a delivery note that only mentions mileage_out
+ * keeps everything recorded at check-in.
+ */
+export const mergeExtractions = (extractions: StoredExtraction[]): Record<string, MergedField> => {
+  const fields: Record<string, MergedField> = {};
+  const ordered = [...extractions].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const extraction of ordered) {
+    if (!extraction.result.success) {
+      continue;
+    }
+
+    for (const [name, value] of Object.entries(extraction.result.extractedData)) {
+      if (name === 'confidence' || isEmptyValue(value)) {
+        continue;
+      }
+
+      const observation: FieldObservation = {
+        value,
+        extractionId: extraction.id,
+        recordedAt: extraction.createdAt,
+        ...(extraction.result.fields?.[name] && { confidence: extraction.result.fields[name].confidence })
+      };
+
+      const field = fields[name];
+      if (!field) {
+        fields[name] = {
+          value: Array.isArray(value) ? unionList([], value) : value,
+          updatedBy: extraction.id,
+          history: [observation],
+          conflict: false
+        };
+        continue;
+      }
+
+      field.history.push(observation);
+      if (Array.isArray(value) && Array.isArray(field.value)) {
+        const merged = unionList(field.value, value);
+        if (merged.length !== field.value.length) {
+          field.value = merged;
+          field.updatedBy = extraction.id;
+        }
+      } else if (comparable(value) !== comparable(field.value)) {
+        field.value = value;
+        field.updatedBy = extraction.id;
+        field.conflict = true;
+      }
+    }
+  }
+
+  return fields;
+};
+
+// Attempts at merging before giving up on a job that keeps changing underneath
+const MAX_REBUILD_ATTEMPTS = 5;
+
+const sameIds = (a: string[], b: string[]): boolean => a.length === b.length && a.every((id, index) => id === b[index]);
+
+/**
+ * The job as someone who may only read some of its extractions sees it: merged values and history
+ * come from those extractions alone, so a note's contents never reach a reader who cannot open it.
+ */
+export const visibleJob = (
+  job: StoredRepairJob,
+  extractions: StoredExtraction[],
+  canRead: (extraction: StoredExtraction) => boolean
+): StoredRepairJob => {
+  const visible = extractions.filter(canRead);
+  if (visible.length === job.extractionIds.length) {
+    return job;
+  }
+  return {
+    ...job,
+    extractionIds: visible.map(extraction => extraction.id),
+    fields: mergeExtractions(visible)
+  };
+};
+
+export const listConflicts = (job: StoredRepairJob): string[] =>
+  Object.entries(job.fields).filter(([, field]) => field.conflict).map(([name]) => name);
+
+// Job number and VIN as the extraction heard them; a VIN that failed validation is not trusted as a key
+const keysFor = (extraction: StoredExtraction): { jobNumber?: string; vin?: string } => {
+  const data = extraction.result.extractedData;
+  const vinFlagged = extraction.result.normalization?.flags.some(flag => flag.field === 'vin');
+  return {
+    jobNumber: typeof data.job_number === 'string' && data.job_number.trim() ? data.job_number.trim() : undefined,
+    vin: typeof data.vin === 'string' && data.vin && !vinFlagged ? data.vin.toUpperCase() : undefined
+  };
+};
+
+export class RepairJobService {
+  /**
+   * File a new extraction under its repair job: the one asked for, otherwise the open job with the same
+   * job number or VIN, otherwise a new job when the note names either. Returns null for failed
+   * extractions, notes without a key, and notes whose job number belongs to a closed job, which a
+   * person should file by hand.
+   */
+  async linkExtraction(extraction: StoredExtraction, repairJobId?: string): Promise<StoredRepairJob | null> {
+    if (!extraction.result.success) {
+      return null;
+    }
+
+    if (repairJobId) {
+      const job = await repairJobRepository.findById(repairJobId);
+      return job && job.shopId === extraction.shopId ? this.attach(job, extraction) : null;
+    }
+
+    const keys = keysFor(extraction);
+    if (!keys.jobNumber && !keys.vin) {
+      return null;
+    }
+
+    const open = await repairJobRepository.findByKey(extraction.shopId, keys, 'open');
+    if (open) {
+      return this.attach(open, extraction);
+    }
+
+    if (keys.jobNumber && await repairJobRepository.findByKey(extraction.shopId, { jobNumber: keys.jobNumber })) {
+      return null;
+    }
+
+    const job = await repairJobRepository.create({
+      shopId: extraction.shopId,
+      userId: extraction.userId,
+      ...keys
+    });
+    return this.attach(job, extraction);
+  }
+
+  async attach(job: StoredRepairJob, extraction: StoredExtraction): Promise<StoredRepairJob> {
+    // Fill in whichever key the job was opened without
+    const keys = keysFor(extraction);
+    return this.rebuild(job.id, current => current.extractionIds.includes(extraction.id) ? null : {
+      extractionIds: [...current.extractionIds, extraction.id],
+      ...(!current.jobNumber && keys.jobNumber && { jobNumber: keys.jobNumber }),
+      ...(!current.vin && keys.vin && { vin: keys.vin })
+    });
+  }
+
+  async detach(job: StoredRepairJob, extractionId: string): Promise<StoredRepairJob> {
+    return this.rebuild(job.id, current => current.extractionIds.includes(extractionId)
+      ? { extractionIds: current.extractionIds.filter(id => id !== extractionId) }
+      : null);
+  }
+
+  /**
+   * Merging from scratch keeps history and conflicts right when notes are removed or arrive out of order.
+   * The merge is only saved if the job's extraction list is still the one it started from; when another
+   * note was attached or removed in the meantime it is redone from the fresh job, so none is lost.
+   */
+  private async rebuild(
+    jobId: string,
+    change: (current: StoredRepairJob) => (Partial<Pick<StoredRepairJob, 'jobNumber' | 'vin'>> & { extractionIds: string[] }) | null
+  ): Promise<StoredRepairJob> {
+    for (let attempt = 0; attempt < MAX_REBUILD_ATTEMPTS; attempt++) {
+      const current = await repairJobRepository.findById(jobId);
+      if (!current) {
+        throw new Error(`Repair job ${jobId} no longer exists`);
+      }
+
+      const next = change(current);
+      if (!next) {
+        return current;
+      }
+
+      const extractions = await extractionRepository.findByIds(next.extractionIds);
+      const updated = await repairJobRepository.updateIf(jobId, job => sameIds(job.extractionIds, current.extractionIds), {
+        ...next,
+        extractionIds: extractions.map(extraction => extraction.id),
+        fields: mergeExtractions(extractions)
+      });
+      if (updated) {
+        return updated;
+      }
+    }
+    throw new Error(`Repair job ${jobId} kept changing while its notes were merged`);
+  }
+}
@@ -0,0 +1,404 @@
+import { StoredExtraction } from '../repositories/extractionRepository';
+import { Shop } from '../repositories/shopRepository';
+import { normalizeExtraction } from './extractionExport';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfWriter, RgbColor, measureText, wrapText } from './pdfWriter';
+
+export const REPORT_DOCUMENTS = ['repair_order', 'damage_report'] as const;
+export type ReportDocument = typeof REPORT_DOCUMENTS[number];
+
+export const REPORT_FORMATS = ['pdf', 'html'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+interface ReportField {
+  label: string;
+  value: string;
+}
+
+interface ReportSection {
+  title: string;
+  fields: ReportField[];
+}
+
+interface ReportColumn {
+  label: string;
+  width: number; // Share of the table width
+  align: 'left' | 'right';
+}
+
+interface ReportTable {
+  columns: ReportColumn[];
+  rows: string[][];
+  totals: ReportField[];
+}
+
+export interface ReportModel {
+  title: string;
+  shop: {
+    name: string;
+    details: string[]; // Address, phone, email, website
+    accentColor: string;
+    footerText?: string;
+  };
+  meta: ReportField[];
+  sections: ReportSection[];
+  operations: ReportTable | null;
+  notes: ReportSection;
+  review: string[]; // Normalization and estimate flags the writer should check
+}
+
+const DEFAULT_ACCENT = '#1f4e79';
+
+const TITLES: Record<ReportDocument, string> = {
+  repair_order: 'Repair Order',
+  damage_report: 'Damage Report'
+};
+
+const money = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '' : value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const display = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join('; ');
+  }
+  if (typeof value === 'number') {
+    return value.toLocaleString('en-US');
+  }
+  return String(value);
+};
+
+// Keeps only fields with something to show
+const fields = (entries: Array<[string, unknown]>): ReportField[] =>
+  entries.map(([label, value]) => ({ label, value: display(value) })).filter(field => field.value !== '');
+
+export const buildReportModel = (record: StoredExtraction, shop: Shop | null, document: ReportDocument): ReportModel => {
+  const normalized = normalizeExtraction(record, shop);
+  const data = record.result.extractedData;
+  const { vehicle } = normalized;
+  const branding = shop?.branding || {};
+  const priced = document === 'repair_order';
+
+  const estimateLines = record.result.estimate?.lines || [];
+  const operations: ReportTable | null = normalized.lines.length === 0 ? null : {
+    columns: [
+      { label: '#', width: 0.05, align: 'left' },
+      { label: 'Operation', width: priced ? 0.13 : 0.18, align: 'left' },
+      { label: 'Description', width: priced ? 0.3 : 0.42, align: 'left' },
+      { label: 'Part #', width: priced ? 0.14 : 0.17, align: 'left' },
+      { label: 'Qty', width: 0.06, align: 'right' },
+      ...(priced ? [{ label: 'Price', width: 0.1, align: 'right' as const }] : []),
+      { label: 'Labor', width: 0.06, align: 'right' },
+      { label: 'Paint', width: 0.06, align: 'right' },
+      ...(priced ? [{ label: 'Total', width: 0.1, align: 'right' as const }] : [])
+    ],
+    rows: normalized.lines.map((line, index) => [
+      String(line.lineNumber),
+      line.operation || '',
+      [line.description, line.partName].filter(Boolean).join(' - '),
+      line.partNumber || '',
+      display(line.quantity),
+      ...(priced ? [money(line.unitPrice)] : []),
+      display(line.laborHours),
+      display(line.refinishHours),
+      ...(priced ? [money(line.total ?? estimateLines[index]?.total)] : [])
+    ]),
+    totals: !priced || !normalized.totals ? [] : [
+      { label: 'Parts', value: money(normalized.totals.parts) },
+      { label: `Labor (${display(normalized.totals.laborHours)} h)`, value: money(normalized.totals.labor) },
+      { label: `Paint (${display(normalized.totals.refinishHours)} h)`, value: money(normalized.totals.refinish) },
+      { label: 'Total', value: money(normalized.totals.total) }
+    ]
+  };
+
+  const customer: ReportSection = {
+    title: 'Customer',
+    fields: fields([['Name', data.customer_name], ['Contact', data.contact_info], ['Requests', data.service_requests]])
+  };
+  const vehicleSection: ReportSection = {
+    title: 'Vehicle',
+    fields: fields([
+      ['Vehicle', [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ')],
+      ['VIN', vehicle.vin],
+      ['Body', vehicle.bodyStyle],
+      ['Color', [vehicle.color, vehicle.paintCode && `(${vehicle.paintCode})`].filter(Boolean).join(' ')],
+      ['Plate', [vehicle.licensePlate, vehicle.licenseState].filter(Boolean).join(' ')],
+      ['Mileage in', vehicle.mileageIn],
+      ['Mileage out', vehicle.mileageOut],
+      ['Fuel', data.fuel_level]
+    ])
+  };
+  const damage: ReportSection = {
+    title: 'Damage',
+    fields: fields([
+      ['Condition', data.repairable_condition],
+      ['Drivable', data.drivable_status],
+      ['Primary impact', data.primary_impact],
+      ['Secondary impact', data.secondary_impact],
+      ['Impact notes', data.impact_notes],
+      ['Prior damage', data.prior_damage_notes],
+      ['Problem', data.problem_description],
+      ['Diagnosis', data.diagnosis]
+    ])
+  };
+
+  return {
+    title: TITLES[document],
+    shop: {
+      name: branding.displayName || shop?.name || '',
+      details: [branding.address, branding.phone, branding.email, branding.website].filter((detail): detail is string => Boolean(detail)),
+      accentColor: branding.accentColor || DEFAULT_ACCENT,
+      footerText: branding.footerText
+    },
+    meta: fields([
+      ['Job number', normalized.jobNumber],
+      ['Date', new Date(record.createdAt).toLocaleDateString('en-US')],
+      ['Reference', record.id]
+    ]),
+    // Damage reports lead with the damage; repair orders with who and what the work is for
+    sections: (document === 'damage_report' ? [vehicleSection, damage, customer] : [customer, vehicleSection, damage])
+      .filter(section => section.fields.length > 0),
+    operations,
+    notes: {
+      title: 'Technician Notes',
+      fields: fields([
+        ['Repairs', data.repairs_performed],
+        ['Tasks', data.tasks_performed],
+        ['Notes', data.technician_notes],
+        ['Paint', data.paint_needed],
+        ['Installation', data.installation_notes],
+        ['Operations', data.operation_notes],
+        ['Recommendations', data.recommendations]
+      ])
+    },
+    review: normalized.flags.map(flag => `${flag.field}: ${flag.message}`)
+  };
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const htmlFields = (section: ReportSection): string =>
+  `<section><h2>${escapeHtml(section.title)}</h2><dl>${section.fields
+    .map(field => `<dt>${escapeHtml(field.label)}</dt><dd>${escapeHtml(field.value)}</dd>`)
+    .join('')}</dl></section>`;
+
+export const renderReportHtml = (model: ReportModel): string => {
+  const { shop } = model;
+  const table = model.operations && `<section><h2>Operations</h2><table><thead><tr>${model.operations.columns
+    .map(column => `<th class="${column.align}" style="width:${Math.round(column.width * 100)}%">${escapeHtml(column.label)}</th>`)
+    .join('')}</tr></thead><tbody>${model.operations.rows
+    .map(row => `<tr>${row.map((cell, index) => `<td class="${model.operations!.columns[index].align}">${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('')}</tbody></table>${model.operations.totals.length ? `<dl class="totals">${model.operations.totals
+    .map(total => `<dt>${escapeHtml(total.label)}</dt><dd>${escapeHtml(total.value)}</dd>`)
+    .join('')}</dl>` : ''}</section>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${model.title} - ${shop.name}`)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #222; max-width: 8.5in; margin: 0 auto; padding: 0.5in; font-size: 13px; }
+  header { border-bottom: 4px solid ${shop.accentColor}; padding-bottom: 8px; display: flex; justify-content: space-between; align-items: flex-end; }
+  header h1 { margin: 0; color: ${shop.accentColor}; font-size: 22px; }
+  header .details { color: #555; font-size: 12px; }
+  header .title { text-align: right; font-size: 18px; font-weight: bold; }
+  h2 { color: ${shop.accentColor}; font-size: 14px; text-transform: uppercase; border-bottom: 1px solid #ccc; margin: 18px 0 6px; }
+  dl { display: grid; grid-template-columns: 140px 1fr; gap: 3px 12px; margin: 0; }
+  dt { font-weight: bold; }
+  dd { margin: 0; white-space: pre-wrap; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: ${shop.accentColor}; color: #fff; padding: 4px; text-align: left; }
+  td { border-bottom: 1px solid #e3e3e3; padding: 4px; vertical-align: top; }
+  .right { text-align: right; }
+  dl.totals { width: 260px; margin: 8px 0 0 auto; grid-template-columns: 1fr auto; }
+  dl.totals dd { text-align: right; }
+  .review { background: #fff6e0; border-left: 4px solid #e0a800; padding: 6px 10px; }
+  footer { margin-top: 24px; border-top: 1px solid #ccc; padding-top: 6px; color: #666; font-size: 11px; }
+  @media print { body { padding: 0; } }
+</style>
+</head>
+<body>
+<header>
+  <div><h1>${escapeHtml(shop.name)}</h1>${shop.details.map(detail => `<div class="details">${escapeHtml(detail)}</div>`).join('')}</div>
+  <div class="title">${escapeHtml(model.title)}${model.meta.map(field => `<div class="details">${escapeHtml(field.label)}: ${escapeHtml(field.value)}</div>`).join('')}</div>
+</header>
+${model.sections.map(htmlFields).join('\n')}
+${table || ''}
+${model.notes.fields.length ? htmlFields(model.notes) : ''}
+${model.review.length ? `<section class="review"><h2>Please Review</h2><ul>${model.review.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul></section>` : ''}
+${shop.footerText ? `<footer>${escapeHtml(shop.footerText)}</footer>` : ''}
+</body>
+</html>
+`;
+};
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 40;
+const LABEL_WIDTH = 110;
+const BODY_SIZE = 9;
+const LINE_HEIGHT = 12;
+const GREY: RgbColor = [0.4, 0.4, 0.4];
+const WHITE: RgbColor = [1, 1, 1];
+
+const hexToRgb = (hex: string): RgbColor =>
+  [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16) / 255) as RgbColor;
+
+// Lays the report out top to bottom, starting a new page whenever the next block would not fit
+class PdfReportLayout {
+  private y = MARGIN;
+  private accent: RgbColor;
+
+  constructor(private pdf: PdfWriter, private model: ReportModel) {
+    this.accent = hexToRgb(model.shop.accentColor);
+    this.pdf.addPage();
+  }
+
+  render(): Buffer {
+    this.header();
+    this.model.sections.forEach(section => this.fieldSection(section));
+    if (this.model.operations) {
+      this.table(this.model.operations);
+    }
+    if (this.model.notes.fields.length) {
+      this.fieldSection(this.model.notes);
+    }
+    if (this.model.review.length) {
+      this.heading('Please Review');
+      this.model.review.forEach(item => this.paragraph(`- ${item}`, MARGIN, CONTENT_WIDTH));
+    }
+    this.footers();
+    return this.pdf.toBuffer();
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      this.pdf.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  private header(): void {
+    const { shop, title, meta } = this.model;
+    this.pdf.text(MARGIN, this.y, shop.name, { size: 18, bold: true, color: this.accent });
+    this.pdf.text(PAGE_WIDTH - MARGIN - measureText(title, 16, true), this.y, title, { size: 16, bold: true });
+
+    let left = this.y + 24;
+    shop.details.forEach(detail => {
+      this.pdf.text(MARGIN, left, detail, { size: BODY_SIZE, color: GREY });
+      left += LINE_HEIGHT;
+    });
+
+    let right = this.y + 24;
+    meta.forEach(field => {
+      const line = `${field.label}: ${field.value}`;
+      this.pdf.text(PAGE_WIDTH - MARGIN - measureText(line, BODY_SIZE), right, line, { size: BODY_SIZE, color: GREY });
+      right += LINE_HEIGHT;
+    });
+
+    this.y = Math.max(left, right) + 4;
+    this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, 3, this.accent);
+    this.y += 10;
+  }
+
+  private heading(title: string): void {
+    this.ensureSpace(40);
+    this.y += 8;
+    this.pdf.text(MARGIN, this.y, title.toUpperCase(), { size: 11, bold: true, color: this.accent });
+    this.y += 15;
+    this.pdf.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, [0.8, 0.8, 0.8]);
+    this.y += 5;
+  }
+
+  private paragraph(value: string, x: number, width: number): void {
+    for (const line of wrapText(value, width, BODY_SIZE)) {
+      this.ensureSpace(LINE_HEIGHT);
+      this.pdf.text(x, this.y, line, { size: BODY_SIZE });
+      this.y += LINE_HEIGHT;
+    }
+  }
+
+  private fieldSection(section: ReportSection): void {
+    this.heading(section.title);
+    for (const field of section.fields) {
+      const lines = wrapText(field.value, CONTENT_WIDTH - LABEL_WIDTH, BODY_SIZE);
+      this.ensureSpace(LINE_HEIGHT);
+      this.pdf.text(MARGIN, this.y, field.label, { size: BODY_SIZE, bold: true });
+      lines.forEach((line, index) => {
+        if (index > 0) {
+          this.ensureSpace(LINE_HEIGHT);
+        }
+        this.pdf.text(MARGIN + LABEL_WIDTH, this.y, line, { size: BODY_SIZE });
+        this.y += LINE_HEIGHT;
+      });
+    }
+  }
+
+  private tableHeader(table: ReportTable, widths: number[]): void {
+    this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, LINE_HEIGHT + 4, this.accent);
+    this.cells(table.columns.map(column => [column.label]), table, widths, { bold: true, color: WHITE }, this.y + 2);
+    this.y += LINE_HEIGHT + 6;
+  }
+
+  private cells(values: string[][], table: ReportTable, widths: number[], options: { bold?: boolean; color?: RgbColor }, y: number): void {
+    let x = MARGIN;
+    values.forEach((lines, index) => {
+      lines.forEach((line, lineIndex) => {
+        const offset = table.columns[index].align === 'right' ? widths[index] - 4 - measureText(line, BODY_SIZE, options.bold) : 2;
+        this.pdf.text(x + offset, y + lineIndex * LINE_HEIGHT, line, { size: BODY_SIZE, ...options });
+      });
+      x += widths[index];
+    });
+  }
+
+  private table(table: ReportTable): void {
+    const widths = table.columns.map(column => column.width * CONTENT_WIDTH);
+    this.heading('Operations');
+    this.ensureSpace(LINE_HEIGHT * 3);
+    this.tableHeader(table, widths);
+
+    for (const row of table.rows) {
+      const wrapped = row.map((cell, index) => wrapText(cell, widths[index] - 6, BODY_SIZE));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * LINE_HEIGHT + 4;
+      if (this.y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+        this.pdf.addPage();
+        this.y = MARGIN;
+        this.tableHeader(table, widths);
+      }
+      this.cells(wrapped, table, widths, {}, this.y);
+      this.y += height;
+      this.pdf.line(MARGIN, this.y - 2, MARGIN + CONTENT_WIDTH, this.y - 2, [0.88, 0.88, 0.88]);
+    }
+
+    this.y += 4;
+    for (const total of table.totals) {
+      this.ensureSpace(LINE_HEIGHT);
+      const bold = total.label === 'Total';
+      this.pdf.text(PAGE_WIDTH - MARGIN - 200, this.y, total.label, { size: BODY_SIZE, bold });
+      this.pdf.text(PAGE_WIDTH - MARGIN - 4 - measureText(total.value, BODY_SIZE, bold), this.y, total.value, { size: BODY_SIZE, bold });
+      this.y += LINE_HEIGHT;
+    }
+  }
+
+  // Stamped last so every page knows the page count
+  private footers(): void {
+    const pages = this.pdf.pageCount;
+    const footer = this.model.shop.footerText ? wrapText(this.model.shop.footerText, CONTENT_WIDTH - 80, 7).slice(0, 3) : [];
+    for (let page = 0; page < pages; page++) {
+      this.pdf.setPage(page);
+      const top = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT + 8;
+      this.pdf.line(MARGIN, top, MARGIN + CONTENT_WIDTH, top, [0.8, 0.8, 0.8]);
+      footer.forEach((line, index) => this.pdf.text(MARGIN, top + 4 + index * 9, line, { size: 7, color: GREY }));
+      const label = `Page ${page + 1} of ${pages}`;
+      this.pdf.text(PAGE_WIDTH - MARGIN - measureText(label, 7), top + 4, label, { size: 7, color: GREY });
+    }
+  }
+}
+
+export const renderReportPdf = (model: ReportModel): Buffer => new PdfReportLayout(new PdfWriter(), model).render();
@@ -0,0 +1,203 @@
+import { TranscriptionResult, TranscriptionSegment } from './speechToText';
+import { UserRole } from '../repositories/userRepository';
+
+export type SpeakerRole = 'technician' | 'estimator' | 'customer';
+
+export const SPEAKER_ROLES: SpeakerRole[] = ['technician', 'estimator', 'customer'];
+
+// How a diarization label ("SPEAKER_0") was given its role
+export interface SpeakerAssignment {
+  speaker: string;
+  role?: SpeakerRole; // Unset when nothing the speaker said points to a role
+  source: 'enrolled' | 'heuristic' | 'recorder';
+  confidence: number;
+  words: number;
+}
+
+// What is known about the people in a recording before it is transcribed
+export interface SpeakerEnrollment {
+  labels?: Record<string, SpeakerRole>; // Diarization labels a user has already identified
+  recordedBy?: SpeakerRole; // Role of the account that made the recording
+}
+
+// Consecutive segments from one speaker joined into a single turn
+export interface SpeakerTurn {
+  speaker: string;
+  role?: SpeakerRole;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Phrases that give a speaker's role away; each match adds its weight to that role
+const ROLE_CUES: Record<SpeakerRole, Array<[RegExp, number]>> = {
+  customer: [
+    [/\bmy (?:car|truck|vehicle|van|suv|insurance|wife|husband|kid|daughter|son)\b/gi, 2],
+    [/\bi was (?:driving|backing|parked|stopped|sitting|going)\b/gi, 2],
+    [/\b(?:someone|somebody|the other (?:car|driver|guy)) (?:hit|rear-ended|backed into|sideswiped)\b/gi, 2],
+    [/\bi (?:heard|noticed|felt|hit|think it|just want)\b/gi, 1],
+    [/\b(?:it|the car|the truck) (?:started|keeps|makes|made|was making|pulls)\b/gi, 1],
+    [/\bhow (?:much|long) (?:will|is|does|would)\b/gi, 1],
+    [/\bwhen can i\b|\bcan i get\b|\bdo i need\b/gi, 1]
+  ],
+  technician: [
+    [/\bi (?:found|checked|inspected|measured|pulled|scanned|tested|removed|torqued|replaced|looked at)\b/gi, 2],
+    [/\b(?:diagnos\w*|inspection|measurements?|trouble codes?|dtcs?|scan tool|torque|frame (?:rack|measurement))\b/gi, 1],
+    [/\b(?:needs? to be|should be|has to be) (?:replaced|repaired|realigned|recalibrated)\b/gi, 1],
+    [/\b(?:cracked|bent|kinked|buckled|sheared|seized|leaking)\b/gi, 1],
+    [/\bpart (?:number|#)\b/gi, 1]
+  ],
+  estimator: [
+    [/\b(?:estimate|supplement|adjuster|claim number|deductible|labor rate|sublet|total loss)\b/gi, 2],
+    [/\b\d+(?:\.\d+)? (?:labor |body |paint |refinish )?hours?\b/gi, 1],
+    [/\b(?:R&I|R&R|refinish|blend|dollars?|per hour)\b/gi, 1],
+    [/\binsurance (?:will|is going to|company)\b/gi, 1]
+  ]
+};
+
+// Lowest confidence reported for a role that was inferred rather than enrolled
+const MIN_HEURISTIC_CONFIDENCE = 0.5;
+
+const countWords = (text: string): number => text.trim().split(/\s+/).filter(Boolean).length;
+
+const scoreRoles = (text: string): Record<SpeakerRole, number> => {
+  const scores = { technician: 0, estimator: 0, customer: 0 };
+  for (const role of SPEAKER_ROLES) {
+    for (const [pattern, weight] of ROLE_CUES[role]) {
+      scores[role] += (text.match(pattern)?.length || 0) * weight;
+    }
+  }
+  return scores;
+};
+
+// Shop accounts record as technicians or as the person writing the estimate
+export const speakerRoleForUser = (role: UserRole | undefined): SpeakerRole | undefined =>
+  role === undefined ? undefined : role === 'technician' ? 'technician' : 'estimator';
+
+/**
+ * Give each diarized speaker a role. Enrolled labels are used as given. The rest are scored on what
+ * they said; each role goes to its strongest speaker first, so two speakers only share a role when
+ * nothing points elsewhere. If the recorder's role is still unclaimed it goes to the unassigned
+ * speaker who talked the most, as that is usually the person holding the phone.
+ */
+export const assignSpeakerRoles = (
+  segments: TranscriptionSegment[],
+  enrollment: SpeakerEnrollment = {}
+): SpeakerAssignment[] => {
+  const spoken = new Map<string, string[]>();
+  for (const segment of segments) {
+    if (segment.speaker) {
+      spoken.set(segment.speaker, [...(spoken.get(segment.speaker) || []), segment.text]);
+    }
+  }
+
+  const assignments = new Map<string, SpeakerAssignment>();
+  const candidates: Array<{ speaker: string; role: SpeakerRole; score: number; share: number }> = [];
+
+  for (const [speaker, texts] of spoken) {
+    const text = texts.join(' ');
+    const words = countWords(text);
+    const enrolled = enrollment.labels?.[speaker];
+    if (enrolled) {
+      assignments.set(speaker, { speaker, role: enrolled, source: 'enrolled', confidence: 1, words });
+      continue;
+    }
+
+    assignments.set(speaker, { speaker, source: 'heuristic', confidence: 0, words });
+    const scores = scoreRoles(text);
+    const total = SPEAKER_ROLES.reduce((sum, role) => sum + scores[role], 0);
+    for (const role of SPEAKER_ROLES) {
+      if (scores[role] > 0) {
+        candidates.push({ speaker, role, score: scores[role], share: scores[role] / total });
+      }
+    }
+  }
+
+  const claimed = new Set(Array.from(assignments.values()).flatMap(entry => entry.role ? [entry.role] : []));
+  const assign = (candidate: typeof candidates[number]) => {
+    const assignment = assignments.get(candidate.speaker)!;
+    assignment.role = candidate.role;
+    assignment.confidence = Math.round(Math.max(MIN_HEURISTIC_CONFIDENCE, candidate.share) * 0.9 * 100) / 100;
+    claimed.add(candidate.role);
+  };
+
+  candidates.sort((a, b) => b.score - a.score || b.share - a.share);
+  for (const candidate of candidates) {
+    if (!assignments.get(candidate.speaker)!.role && !claimed.has(candidate.role)) {
+      assign(candidate);
+    }
+  }
+  for (const candidate of candidates) {
+    if (!assignments.get(candidate.speaker)!.role) {
+      assign(candidate);
+    }
+  }
+
+  const recordedBy = enrollment.recordedBy;
+  if (recordedBy && !claimed.has(recordedBy)) {
+    const holder = Array.from(assignments.values())
+      .filter(entry => !entry.role)
+      .sort((a, b) => b.words - a.words)[0];
+    if (holder) {
+      holder.role = recordedBy;
+      holder.source = 'recorder';
+      holder.confidence = MIN_HEURISTIC_CONFIDENCE;
+    }
+  }
+
+  return Array.from(assignments.values());
+};
+
+// Tag diarized segments with their speaker's role; results without speaker labels are returned as they are
+export const labelSpeakers = (result: TranscriptionResult, enrollment: SpeakerEnrollment = {}): TranscriptionResult => {
+  if (!result.segments?.some(segment => segment.speaker)) {
+    return result;
+  }
+
+  // The role cues are English, so a translation is the better text to score
+  const speakers = assignSpeakerRoles(result.translation?.segments ?? result.segments, enrollment);
+  const roles = new Map(speakers.map(entry => [entry.speaker, entry.role]));
+  const withRole = ({ role: _previous, ...segment }: TranscriptionSegment): TranscriptionSegment => {
+    const role = segment.speaker ? roles.get(segment.speaker) : undefined;
+    return role ? { ...segment, role } : segment;
+  };
+
+  return {
+    ...result,
+    segments: result.segments.map(withRole),
+    ...(result.translation?.segments && {
+      translation: { ...result.translation, segments: result.translation.segments.map(withRole) }
+    }),
+    speakers
+  };
+};
+
+// Labels a user has confirmed, kept when a recording's speakers are labelled again
+export const enrolledLabels = (result: TranscriptionResult): Record<string, SpeakerRole> =>
+  Object.fromEntries((result.speakers || []).flatMap(entry => entry.source === 'enrolled' && entry.role ? [[entry.speaker, entry.role]] : []));
+
+export const buildSpeakerTurns = (segments: TranscriptionSegment[] = []): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!segment.speaker || !text) {
+      continue;
+    }
+
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.text += ` ${text}`;
+      last.end = segment.end;
+    } else {
+      turns.push({ speaker: segment.speaker, role: segment.role, text, start: segment.start, end: segment.end });
+    }
+  }
+  return turns;
+};
+
+export const speakerLabel = (turn: Pick<SpeakerTurn, 'speaker' | 'role'>): string =>
+  turn.role ? turn.role[0].toUpperCase() + turn.role.slice(1) : `Unidentified speaker (${turn.speaker})`;
+
+// One "Role: words" line per turn, the form the extraction prompt reads
+export const formatSpeakerTranscript = (turns: SpeakerTurn[]): string =>
+  turns.map(turn => `${speakerLabel(turn)}: ${turn.text}`).join('\n');
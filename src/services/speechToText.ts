@@ -1,168 +1,232 @@
-import { fal } from '@fal-ai/client';
+import { getTranscriptionProvider, listTranscriptionProviders, TranscriptionProvider } from './transcriptionProviders/registry';
+import { countWords } from './transcriptionProviders/http';
+import { AudioFormat, CANONICAL_FORMAT, getChunkingOptions, prepareAudio, PreparedAudio, sniffAudioFormat } from './audioPreprocessing';
+import {
+  AUTOMOTIVE_VOCABULARY,
+  buildVocabularyHints,
+  correctTranscript,
+  mergeVocabulary,
+  TranscriptCorrection,
+  VocabularyHints,
+  VocabularyTerm
+} from './vocabulary';
+import { labelSpeakers, SpeakerAssignment, SpeakerRole } from './speakerRoles';
+import { TranscriptTranslation } from './translation';
+import { shopRepository } from '../repositories/shopRepository';
 
 export interface TranscriptionOptions {
   language?: string;
-  model: 'fal-whisper' | 'google' | 'azure';
+  model: string; // Name of a registered TranscriptionProvider
   timestamp: boolean;
   speakerDiarization: boolean;
+  speakerRoles?: Record<string, SpeakerRole>; // Diarization labels already identified, e.g. { "SPEAKER_1": "customer" }
+  translate?: boolean; // Translate non-English transcripts before extraction; defaults to TRANSLATE_TO_ENGLISH
 }
 
+export type TranscriptionStage = 'uploading' | 'transcribing';
+
 export interface TranscriptionRequest {
   audioBuffer: Buffer;
   mimeType: string;
   fileName: string;
   userId: string;
   options: TranscriptionOptions;
+  hints?: VocabularyHints; // Filled from the service's vocabulary when not given
+  recordedBy?: SpeakerRole; // Helps label the speaker holding the phone
+  // Providers report when audio transfer ends and recognition begins
+  onProgress?: (stage: TranscriptionStage) => void;
+}
+
+export interface TranscriptionSegment {
+  text: string;
+  start: number;
+  end: number;
+  speaker?: string;
+  role?: SpeakerRole; // Set when diarization ran and the speaker could be identified
 }
 
 export interface TranscriptionResult {
   text: string;
   language?: string;
   confidence?: number;
-  segments?: Array<{
-    text: string;
-    start: number;
-    end: number;
-    speaker?: string;
-  }>;
+  segments?: TranscriptionSegment[];
   model: string;
   duration?: number;
   wordCount: number;
+  rawText?: string; // Provider output before glossary corrections, set only when something was corrected
+  corrections?: TranscriptCorrection[];
+  speakers?: SpeakerAssignment[]; // Role given to each diarized speaker
+  translation?: TranscriptTranslation; // English version when the recording was in another language
+  translationError?: string; // Why a non-English transcript has no translation; extraction read the original
 }
 
 export class SpeechToTextService {
-  constructor() {
-    if (!process.env.FAL_KEY) {
-      throw new Error('FAL_KEY environment variable is required');
-    }
-    
-    // Configure fal.ai client
-    fal.config({
-      credentials: process.env.FAL_KEY,
-    });
+  constructor(private vocabulary: VocabularyTerm[] = AUTOMOTIVE_VOCABULARY) {}
+
+  // Built-in trade terms plus the shop's own glossary
+  static async forShop(shopId: string): Promise<SpeechToTextService> {
+    const shop = await shopRepository.findById(shopId);
+    return new SpeechToTextService(mergeVocabulary(shop?.vocabulary));
   }
 
   async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
     try {
       console.log(`Starting transcription for user ${request.userId} using model ${request.options.model}`);
       
-      switch (request.options.model) {
-        case 'fal-whisper':
-          return await this.transcribeWithFalWhisper(request);
-        case 'google':
-          return await this.transcribeWithGoogle(request);
-        case 'azure':
-          return await this.transcribeWithAzure(request);
-        default:
-          throw new Error(`Unsupported transcription model: ${request.options.model}`);
+      const provider = getTranscriptionProvider(request.options.model);
+      if (!provider) {
+        throw new Error(`Unsupported transcription model: ${request.options.model}`);
       }
+
+      const hinted = { ...request, hints: request.hints ?? buildVocabularyHints(this.vocabulary) };
+      const result = this.applyCorrections(await this.recognize(provider, hinted));
+      return labelSpeakers(result, { labels: request.options.speakerRoles, recordedBy: request.recordedBy });
     } catch (error) {
       console.error('Transcription service error:', error);
       throw new Error(`Transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private async transcribeWithFalWhisper(request: TranscriptionRequest): Promise<TranscriptionResult> {
+  private async recognize(provider: TranscriptionProvider, request: TranscriptionRequest): Promise<TranscriptionResult> {
+    if (process.env.AUDIO_PREPROCESSING === 'false') {
+      return provider.transcribe(request);
+    }
+
+    const format = SpeechToTextService.validateAudioFile(request.audioBuffer);
+    let prepared: PreparedAudio;
     try {
-      // Upload audio file to fal.ai storage
-      const file = new File([request.audioBuffer], request.fileName, {
-        type: request.mimeType,
-      });
-      
-      console.log('Uploading audio file to fal.ai storage...');
-      const audioUrl = await fal.storage.upload(file);
-      
-      console.log('Starting fal.ai Whisper transcription...');
-      const result = await fal.subscribe('fal-ai/whisper', {
-        input: {
-          audio_url: audioUrl,
-          task: 'transcribe',
-          language: request.options.language as any, // Cast to any for language compatibility
-          diarize: request.options.speakerDiarization,
-          chunk_level: request.options.timestamp ? 'segment' : 'word',
-          version: '3',
-        },
-        logs: true,
-        onQueueUpdate: (update) => {
-          if (update.status === 'IN_PROGRESS') {
-            console.log('Transcription in progress...');
-          }
-        },
+      prepared = await prepareAudio(request.audioBuffer, format, {
+        ...getChunkingOptions(),
+        // Speaker labels are only consistent within one provider call
+        split: !request.options.speakerDiarization
       });
+    } catch (error) {
+      console.warn(`Audio preprocessing skipped, sending the original ${format.name} audio:`, error instanceof Error ? error.message : error);
+      return provider.transcribe({ ...request, mimeType: format.mimeType });
+    }
+
+    return this.transcribeChunks(provider, request, prepared);
+  }
+
+  // Map mis-heard trade terms onto the glossary, keeping the provider's text alongside
+  private applyCorrections(result: TranscriptionResult): TranscriptionResult {
+    const { text, corrections } = correctTranscript(result.text, this.vocabulary);
+    if (corrections.length === 0) {
+      return result;
+    }
+
+    return {
+      ...result,
+      text,
+      rawText: result.text,
+      corrections,
+      segments: result.segments?.map(segment => ({
+        ...segment,
+        text: correctTranscript(segment.text, this.vocabulary).text
+      })),
+      wordCount: countWords(text)
+    };
+  }
 
-      // Map fal.ai response to our TranscriptionResult format
-      const transcriptionResult: TranscriptionResult = {
-        text: result.data.text,
-        model: 'fal-whisper',
-        wordCount: result.data.text.split(' ').length,
-        confidence: 0.9, // fal.ai doesn't provide confidence, using default
-      };
-
-      // Add language if detected
-      if (result.data.inferred_languages && result.data.inferred_languages.length > 0) {
-        transcriptionResult.language = result.data.inferred_languages[0];
+  // Transcribe the pieces in parallel and put their text and timestamps back on one timeline
+  private async transcribeChunks(
+    provider: TranscriptionProvider,
+    request: TranscriptionRequest,
+    prepared: PreparedAudio
+  ): Promise<TranscriptionResult> {
+    const { chunks } = prepared;
+    const concurrency = parseInt(process.env.AUDIO_CHUNK_CONCURRENCY || '3') || 3;
+    const baseName = request.fileName.replace(/\.[^.]*$/, '') || 'audio';
+
+    // Each chunk reports the same stages; pass each one on once
+    const reported = new Set<TranscriptionStage>();
+    const onProgress = (stage: TranscriptionStage) => {
+      if (!reported.has(stage)) {
+        reported.add(stage);
+        request.onProgress?.(stage);
       }
+    };
+
+    if (chunks.length > 1) {
+      console.log(`Transcribing ${chunks.length} chunks of ${prepared.duration.toFixed(1)}s of audio`);
+    }
 
-      // Add segments/chunks if available
-      if (result.data.chunks && result.data.chunks.length > 0) {
-        transcriptionResult.segments = result.data.chunks.map((chunk: any) => ({
-          text: chunk.text,
-          start: chunk.timestamp[0],
-          end: chunk.timestamp[1],
-          speaker: chunk.speaker, // Available if diarization is enabled
+    const results: TranscriptionResult[] = new Array(chunks.length);
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < chunks.length) {
+        const index = next++;
+        results[index] = await provider.transcribe({
+          ...request,
+          audioBuffer: chunks[index].audioBuffer,
+          mimeType: CANONICAL_FORMAT.mimeType,
+          fileName: chunks.length > 1 ? `${baseName}-part${index + 1}.wav` : `${baseName}.wav`,
+          onProgress
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const text = results.map(result => result.text.trim()).filter(Boolean).join(' ');
+    const segments = results.flatMap((result, index): TranscriptionSegment[] => {
+      const chunk = chunks[index];
+      if (result.segments?.length) {
+        return result.segments.map(segment => ({
+          ...segment,
+          start: round(segment.start + chunk.offset),
+          end: round(segment.end + chunk.offset)
         }));
       }
+      // A chunk without segments still places its text in the recording
+      return chunks.length > 1 && result.text.trim()
+        ? [{ text: result.text.trim(), start: round(chunk.offset), end: round(chunk.offset + chunk.duration) }]
+        : [];
+    });
 
-      return transcriptionResult;
-    } catch (error) {
-      console.error('Fal.ai Whisper transcription error:', error);
-      throw new Error(`Fal.ai Whisper transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
+    const scored = results
+      .map((result, index) => ({ confidence: result.confidence, weight: chunks[index].duration }))
+      .filter((entry): entry is { confidence: number; weight: number } => entry.confidence !== undefined);
+    const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
 
-  private async transcribeWithGoogle(request: TranscriptionRequest): Promise<TranscriptionResult> {
-    // TODO: Implement Google Speech-to-Text integration
-    console.log('Google Speech-to-Text integration not yet implemented');
-    
-    // Placeholder implementation
-    return {
-      text: 'Google Speech-to-Text integration coming soon...',
-      model: 'google',
-      wordCount: 6,
+    const transcriptionResult: TranscriptionResult = {
+      text,
+      model: results[0].model,
+      duration: round(prepared.duration),
+      wordCount: countWords(text)
     };
+
+    const language = results.find(result => result.language)?.language;
+    if (language) {
+      transcriptionResult.language = language;
+    }
+    if (scored.length > 0) {
+      transcriptionResult.confidence = totalWeight > 0
+        ? round(scored.reduce((sum, entry) => sum + entry.confidence * entry.weight, 0) / totalWeight)
+        : scored[0].confidence;
+    }
+    if (segments.length > 0) {
+      transcriptionResult.segments = segments;
+    }
+
+    return transcriptionResult;
   }
 
-  private async transcribeWithAzure(request: TranscriptionRequest): Promise<TranscriptionResult> {
-    // TODO: Implement Azure Speech Services integration
-    console.log('Azure Speech Services integration not yet implemented');
-    
-    // Placeholder implementation
-    return {
-      text: 'Azure Speech Services integration coming soon...',
-      model: 'azure',
-      wordCount: 6,
-    };
+  static listModels(): ReturnType<typeof listTranscriptionProviders> {
+    return listTranscriptionProviders();
   }
 
-  // Utility method to validate audio file
-  static validateAudioFile(buffer: Buffer, mimeType: string, maxSizeBytes: number = 50000000): void {
+  // Check the size and identify the format from the audio bytes; the client's MIME type is not trusted
+  static validateAudioFile(buffer: Buffer, maxSizeBytes: number = parseInt(process.env.MAX_FILE_SIZE || '50000000')): AudioFormat {
     if (buffer.length > maxSizeBytes) {
       throw new Error(`File size ${buffer.length} bytes exceeds maximum allowed size of ${maxSizeBytes} bytes`);
     }
 
-    const supportedMimeTypes = [
-      'audio/mpeg',
-      'audio/wav',
-      'audio/mp3',
-      'audio/mp4',
-      'audio/m4a',
-      'audio/webm',
-      'audio/flac'
-    ];
-
-    if (!supportedMimeTypes.includes(mimeType)) {
-      throw new Error(`Unsupported audio format: ${mimeType}. Supported formats: ${supportedMimeTypes.join(', ')}`);
+    const format = sniffAudioFormat(buffer);
+    if (!format) {
+      throw new Error('Invalid file type. The upload is not a recognized audio format.');
     }
+    return format;
   }
 
   // Method to estimate transcription cost (useful for user information)
@@ -171,9 +235,10 @@ export class SpeechToTextService {
     const costPerMinute = {
       'fal-whisper': 0.005, // Estimated fal.ai Whisper pricing (typically lower than OpenAI)
       'google': 0.016,      // Estimated Google pricing
-      'azure': 0.012        // Estimated Azure pricing
+      'azure': 0.012,       // Estimated Azure pricing
+      'local-whisper': 0    // Runs on our own hardware
     };
 
-    return (costPerMinute[model as keyof typeof costPerMinute] || 0.005) * durationMinutes;
+    return (costPerMinute[model as keyof typeof costPerMinute] ?? 0.005) * durationMinutes;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,98 @@
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+const SCALES: Record<string, number> = { thousand: 1000, million: 1000000 };
+
+const FRACTIONS: Record<string, number> = { half: 0.5, quarter: 0.25 };
+
+const NUMBER_WORDS = [...Object.keys(UNITS), ...Object.keys(TENS), 'hundred', ...Object.keys(SCALES)].join('|');
+
+const DIGITS = '\\d[\\d,]*(?:\\.\\d+)?k?';
+
+const TERM = `(?:${DIGITS}|(?:${NUMBER_WORDS})\\b)`;
+
+const JOINER = '(?:[\\s-]+(?:and[\\s-]+)?)';
+
+const FRACTION = `(?:${JOINER}an?\\s+(?:half|quarter)\\b|\\s+point(?:\\s+(?:${Object.keys(UNITS).slice(0, 10).join('|')}|\\d))+\\b)`;
+
+// Source for a regex that matches a number written in digits, words or both ("45,000", "forty five thousand", "2 and a half")
+export const NUMBER_PHRASE = `(?:${TERM}(?:${JOINER}${TERM})*${FRACTION}?|an?\\s+half\\b)`;
+
+const SMALL_NUMBER = `(?:(?:${Object.keys(TENS).join('|')})(?:[\\s-]+(?:${Object.keys(UNITS).slice(1, 10).join('|')}))?|${Object.keys(UNITS).join('|')})`;
+
+// Source for a regex that matches a model year: "2018", "twenty eighteen", "nineteen ninety-eight", "two thousand nine"
+export const YEAR_PHRASE = `(?:(?:19|20)\\d{2}\\b|(?:twenty|nineteen)[\\s-]+(?:oh[\\s-]+)?${SMALL_NUMBER}\\b|two[\\s-]+thousand(?:[\\s-]+(?:and[\\s-]+)?${SMALL_NUMBER})?\\b)`;
+
+/**
+ * Parse a number phrase matched by NUMBER_PHRASE: "forty five thousand" -> 45000, "two and a half" -> 2.5,
+ * "three point five" -> 3.5, "45k" -> 45000. Returns null for anything else.
+ */
+export const parseSpokenNumber = (phrase: string): number | null => {
+  const tokens = phrase.toLowerCase().replace(/,/g, '').split(/[\s-]+/).filter(Boolean);
+  let total = 0;
+  let current = 0;
+  let fraction = 0;
+  let decimals = '';
+  let inDecimals = false;
+  let seen = false;
+
+  for (const token of tokens) {
+    if (/^\d+(\.\d+)?k?$/.test(token)) {
+      const value = parseFloat(token);
+      if (inDecimals) {
+        decimals += token;
+      } else {
+        current += token.endsWith('k') ? value * 1000 : value;
+      }
+    } else if (token in UNITS) {
+      if (inDecimals) {
+        decimals += String(UNITS[token]);
+      } else {
+        current += UNITS[token];
+      }
+    } else if (token in TENS) {
+      current += TENS[token];
+    } else if (token === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (token in SCALES) {
+      total += (current || 1) * SCALES[token];
+      current = 0;
+    } else if (token in FRACTIONS) {
+      fraction = FRACTIONS[token];
+    } else if (token === 'point') {
+      inDecimals = true;
+      continue;
+    } else if (token === 'and' || token === 'a' || token === 'an') {
+      continue;
+    } else {
+      return null;
+    }
+    seen = true;
+  }
+
+  if (!seen) {
+    return null;
+  }
+  return total + current + fraction + (decimals ? parseFloat(`0.${decimals}`) : 0);
+};
+
+// "twenty eighteen" -> 2018, "two thousand nine" -> 2009, "nineteen ninety-eight" -> 1998
+export const parseSpokenYear = (phrase: string): number | null => {
+  const match = /^(twenty|nineteen)[\s-]+(.+)$/i.exec(phrase.trim());
+  if (match) {
+    const rest = parseSpokenNumber(match[2].replace(/^oh[\s-]+/i, ''));
+    if (rest !== null && rest < 100 && Number.isInteger(rest)) {
+      return (match[1].toLowerCase() === 'twenty' ? 2000 : 1900) + rest;
+    }
+  }
+
+  const number = parseSpokenNumber(phrase);
+  return number !== null && number >= 1900 && number <= 2100 && Number.isInteger(number) ? number : null;
+};
@@ -0,0 +1,136 @@
+import { sniffAudioFormat } from './audioPreprocessing';
+
+/**
+ * Where a live recording's container header ends and where its audio can be picked up again. Later
+ * MediaRecorder chunks cannot be decoded on their own, but the header followed by audio from a
+ * cluster, page or fragment boundary can, which lets partial results transcribe only recent audio.
+ */
+export interface StreamLayout {
+  headerLength: number;
+  // Header to put in front of dataLength bytes of audio taken from the middle of the stream
+  header(dataLength: number): Buffer;
+  // First offset at or after from where a decoder can resume, or -1 when the audio has none yet
+  resumeAt(audio: Buffer, audioOffset: number, from: number): number;
+}
+
+const ascii = (buffer: Buffer, start: number, end: number): string => buffer.toString('latin1', start, end);
+
+const WEBM_CLUSTER_ID = Buffer.from([0x1f, 0x43, 0xb6, 0x75]);
+const OGG_CAPTURE = Buffer.from('OggS', 'latin1');
+const MP4_FRAGMENT = Buffer.from('moof', 'latin1');
+
+// Resuming at the next occurrence of a marker; offset shifts the match, e.g. back to an MP4 box's size field
+const resumeAtMarker = (marker: Buffer, offset = 0) => (audio: Buffer, audioOffset: number, from: number): number => {
+  const index = audio.indexOf(marker, Math.max(0, from - audioOffset - offset) + offset);
+  return index < 0 ? -1 : audioOffset + index - offset;
+};
+
+const fixedHeader = (head: Buffer, headerLength: number, resumeAt: StreamLayout['resumeAt']): StreamLayout => {
+  const header = Buffer.from(head.subarray(0, headerLength));
+  return { headerLength, header: () => header, resumeAt };
+};
+
+// Everything before the first cluster: EBML header, segment info and track list
+const webmLayout = (head: Buffer): StreamLayout | null => {
+  const cluster = head.indexOf(WEBM_CLUSTER_ID);
+  return cluster < 0 ? null : fixedHeader(head, cluster, resumeAtMarker(WEBM_CLUSTER_ID));
+};
+
+// The identification and comment pages, which carry no audio and so have a granule position of 0
+const oggLayout = (head: Buffer): StreamLayout | null => {
+  for (let offset = 0; offset + 27 <= head.length && ascii(head, offset, offset + 4) === 'OggS';) {
+    const segments = head[offset + 26];
+    if (offset + 27 + segments > head.length) {
+      return null;
+    }
+    if (head.readBigInt64LE(offset + 6) > BigInt(0)) {
+      return fixedHeader(head, offset, resumeAtMarker(OGG_CAPTURE));
+    }
+    let size = 27 + segments;
+    for (let index = 0; index < segments; index++) {
+      size += head[offset + 27 + index];
+    }
+    offset += size;
+  }
+  return null;
+};
+
+// ftyp and moov of a fragmented MP4; each moof that follows starts a self-contained fragment
+const mp4Layout = (head: Buffer): StreamLayout | null => {
+  for (let offset = 0; offset + 8 <= head.length;) {
+    if (ascii(head, offset + 4, offset + 8) === 'moof') {
+      return fixedHeader(head, offset, resumeAtMarker(MP4_FRAGMENT, 4));
+    }
+    const size = head.readUInt32BE(offset);
+    if (size < 8) {
+      return null;
+    }
+    offset += size;
+  }
+  return null;
+};
+
+// Streamed WAV headers carry no real length, so each window gets one sized for its own data
+const wavLayout = (head: Buffer): StreamLayout | null => {
+  let blockAlign = 0;
+  for (let offset = 12; offset + 8 <= head.length;) {
+    const id = ascii(head, offset, offset + 4);
+    const size = head.readUInt32LE(offset + 4);
+    if (id === 'fmt ' && offset + 22 <= head.length) {
+      blockAlign = head.readUInt16LE(offset + 20);
+    } else if (id === 'data') {
+      const headerLength = offset + 8;
+      const template = Buffer.from(head.subarray(0, headerLength));
+      const align = blockAlign || 1;
+      return {
+        headerLength,
+        header: dataLength => {
+          const header = Buffer.from(template);
+          header.writeUInt32LE(headerLength - 8 + dataLength, 4);
+          header.writeUInt32LE(dataLength, headerLength - 4);
+          return header;
+        },
+        resumeAt: (_audio, _audioOffset, from) =>
+          headerLength + Math.ceil(Math.max(0, from - headerLength) / align) * align
+      };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+};
+
+// MP3 frames start with a sync word and need nothing before them; an ID3 tag is skipped as the header
+const mp3Layout = (head: Buffer): StreamLayout | null => {
+  const headerLength = ascii(head, 0, 3) === 'ID3'
+    ? 10 + ((head[6] & 0x7f) << 21 | (head[7] & 0x7f) << 14 | (head[8] & 0x7f) << 7 | (head[9] & 0x7f))
+    : 0;
+  return headerLength > head.length ? null : fixedHeader(head, headerLength, (audio, audioOffset, from) => {
+    for (let index = Math.max(0, from - audioOffset); index + 1 < audio.length; index++) {
+      if (audio[index] === 0xff && (audio[index + 1] & 0xe0) === 0xe0) {
+        return audioOffset + index;
+      }
+    }
+    return -1;
+  });
+};
+
+/**
+ * Read the layout from the start of a recording. Null until enough of it has arrived to hold the
+ * whole header, and for containers whose audio cannot be resumed mid-stream.
+ */
+export const parseStreamLayout = (head: Buffer): StreamLayout | null => {
+  switch (sniffAudioFormat(head)?.name) {
+    case 'webm':
+      return webmLayout(head);
+    case 'ogg':
+      return oggLayout(head);
+    case 'mp4':
+      return mp4Layout(head);
+    case 'wav':
+      return wavLayout(head);
+    case 'mp3':
+      return mp3Layout(head);
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,242 @@
+import { SpeechToTextService, TranscriptionOptions, TranscriptionResult, TranscriptionSegment } from './speechToText';
+import { CustomSchema, ExtractionResult, ExtractionType } from './dataExtraction';
+import { VoicePipelineService } from './voicePipeline';
+import { parseStreamLayout, StreamLayout } from './streamingAudio';
+
+export type StreamingMessage =
+  | { type: 'ready'; sessionId: string }
+  | { type: 'partial'; text: string; segments: TranscriptionSegment[]; receivedBytes: number }
+  | { type: 'final'; transcriptionId: string; transcription: TranscriptionResult }
+  | { type: 'extraction'; extractionId: string; repairNoteId: string; extraction: ExtractionResult }
+  | { type: 'error'; error: string };
+
+export interface StreamingSessionConfig {
+  sessionId: string;
+  shopId: string;
+  userId: string;
+  mimeType: string;
+  options: TranscriptionOptions;
+  extractionType?: ExtractionType;
+  customSchema?: CustomSchema;
+  partials: boolean;
+  send: (message: StreamingMessage) => void;
+}
+
+// Audio sent with a partial's container header and what part of it is new
+interface PartialWindow {
+  audio: Buffer;
+  start: number; // Offset in the recording of the window's first audio byte
+  newFrom: number; // Offset where audio earlier partials did not cover begins
+  end: number;
+}
+
+// A container header bigger than this means the recording cannot be cut into windows
+const MAX_HEADER_BYTES = 256 * 1024;
+
+/**
+ * Collects MediaRecorder chunks for one live recording. Each partial result transcribes only the audio
+ * since the previous one, behind a copy of the container header and a little of the audio before it so
+ * words cut at the boundary are heard whole, and sends just the new segments. The whole recording is
+ * kept for the final transcript, up to MAX_FILE_SIZE.
+ */
+export class StreamingTranscriptionSession {
+  private chunks: Buffer[] = [];
+  private receivedBytes = 0;
+  private transcribedBytes = 0;
+  private layout: StreamLayout | null = null;
+  private bytesPerSecond: number | null = null; // Estimated from earlier partials; sizes the overlap
+  private partialInFlight: Promise<void> | null = null;
+  private partialTimer: NodeJS.Timeout | null = null;
+  private finished = false;
+
+  constructor(private config: StreamingSessionConfig) {
+    if (config.partials) {
+      const intervalMs = parseInt(process.env.STREAM_PARTIAL_INTERVAL_MS || '5000') || 5000;
+      this.partialTimer = setInterval(() => this.emitPartial(), intervalMs);
+    }
+  }
+
+  addChunk(chunk: Buffer): void {
+    if (this.finished) {
+      return;
+    }
+
+    const maxBytes = parseInt(process.env.MAX_FILE_SIZE || '50000000');
+    if (this.receivedBytes + chunk.length > maxBytes) {
+      throw new Error(`Stream exceeds maximum allowed size of ${maxBytes} bytes`);
+    }
+
+    this.chunks.push(chunk);
+    this.receivedBytes += chunk.length;
+  }
+
+  // Transcribe the whole recording, store it, then extract into a repair note
+  async finish(): Promise<void> {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    this.stopTimer();
+
+    if (this.partialInFlight) {
+      await this.partialInFlight;
+    }
+
+    if (this.receivedBytes === 0) {
+      this.config.send({ type: 'error', error: 'No audio received' });
+      return;
+    }
+
+    const pipeline = new VoicePipelineService();
+    const transcription = await pipeline.transcribe({
+      shopId: this.config.shopId,
+      userId: this.config.userId,
+      audioBuffer: Buffer.concat(this.chunks),
+      fileName: `${this.config.sessionId}.${this.extension()}`,
+      mimeType: this.config.mimeType,
+      fileSize: this.receivedBytes,
+      options: this.config.options
+    });
+
+    this.config.send({ type: 'final', transcriptionId: transcription.id, transcription: transcription.result });
+
+    if (this.config.extractionType) {
+      const { note, extraction } = await pipeline.completeNote(
+        transcription,
+        this.config.extractionType,
+        this.config.customSchema
+      );
+
+      this.config.send({
+        type: 'extraction',
+        extractionId: extraction.id,
+        repairNoteId: note.id,
+        extraction: extraction.result
+      });
+    }
+  }
+
+  abort(): void {
+    this.finished = true;
+    this.stopTimer();
+  }
+
+  private emitPartial(): void {
+    if (this.finished || this.partialInFlight || this.receivedBytes === this.transcribedBytes) {
+      return;
+    }
+
+    const window = this.nextWindow();
+    if (!window) {
+      return;
+    }
+
+    this.partialInFlight = SpeechToTextService.forShop(this.config.shopId)
+      .then(stt => stt.transcribe({
+        audioBuffer: window.audio,
+        mimeType: this.config.mimeType,
+        fileName: `${this.config.sessionId}-partial.${this.extension()}`,
+        userId: this.config.userId,
+        options: this.config.options
+      }))
+      .then(transcription => {
+        this.transcribedBytes = window.end;
+        const increment = this.increment(transcription, window);
+        if (!this.finished && increment.text) {
+          this.config.send({ type: 'partial', ...increment, receivedBytes: window.end });
+        }
+      })
+      .catch(error => {
+        console.error(`Partial transcription failed for stream ${this.config.sessionId}:`, error);
+      })
+      .finally(() => {
+        this.partialInFlight = null;
+      });
+  }
+
+  // The audio received since the last partial, with some overlap, behind the container header
+  private nextWindow(): PartialWindow | null {
+    const layout = this.streamLayout();
+    if (!layout) {
+      return null;
+    }
+
+    const overlapSeconds = parseFloat(process.env.STREAM_PARTIAL_OVERLAP_SECONDS || '2') || 0;
+    const overlapBytes = this.bytesPerSecond ? Math.round(overlapSeconds * this.bytesPerSecond) : 0;
+    const wanted = Math.max(layout.headerLength, this.transcribedBytes - overlapBytes);
+
+    // Only the chunks the window reaches into are copied
+    let offset = this.receivedBytes;
+    let first = this.chunks.length;
+    while (first > 0 && offset > wanted) {
+      first--;
+      offset -= this.chunks[first].length;
+    }
+    const tail = Buffer.concat(this.chunks.slice(first));
+    const end = offset + tail.length;
+
+    const start = wanted === layout.headerLength ? wanted : layout.resumeAt(tail, offset, wanted);
+    if (start < 0 || start >= end) {
+      return null;
+    }
+
+    const data = tail.subarray(start - offset);
+    return {
+      audio: Buffer.concat([layout.header(data.length), data]),
+      start,
+      newFrom: Math.max(start, this.transcribedBytes),
+      end
+    };
+  }
+
+  /**
+   * Place the window's segments on the recording's timeline and drop those the previous partial
+   * already sent. Times are estimated from the window's bytes per second of audio.
+   */
+  private increment(transcription: TranscriptionResult, window: PartialWindow): { text: string; segments: TranscriptionSegment[] } {
+    const segments = transcription.segments || [];
+    const seconds = transcription.duration || segments[segments.length - 1]?.end;
+    if (seconds) {
+      this.bytesPerSecond = (window.end - window.start) / seconds;
+    }
+    if (!this.bytesPerSecond || !segments.length) {
+      return { text: transcription.text.trim(), segments: [] };
+    }
+
+    const headerLength = this.layout?.headerLength || 0;
+    const windowStart = (window.start - headerLength) / this.bytesPerSecond;
+    const newFrom = (window.newFrom - window.start) / this.bytesPerSecond;
+    const onRecording = (seconds: number) => Math.round((seconds + windowStart) * 1000) / 1000;
+    const fresh = segments
+      .filter(segment => (segment.start + segment.end) / 2 >= newFrom)
+      .map(segment => ({ ...segment, start: onRecording(segment.start), end: onRecording(segment.end) }));
+
+    return { text: fresh.map(segment => segment.text.trim()).filter(Boolean).join(' '), segments: fresh };
+  }
+
+  private streamLayout(): StreamLayout | null {
+    if (!this.layout) {
+      let headChunks = 0;
+      for (let bytes = 0; headChunks < this.chunks.length && bytes < MAX_HEADER_BYTES; headChunks++) {
+        bytes += this.chunks[headChunks].length;
+      }
+      this.layout = parseStreamLayout(Buffer.concat(this.chunks.slice(0, headChunks)).subarray(0, MAX_HEADER_BYTES));
+      if (!this.layout && this.receivedBytes >= MAX_HEADER_BYTES) {
+        console.warn(`Stream ${this.config.sessionId} cannot be cut into windows, partial results are off`);
+        this.stopTimer();
+      }
+    }
+    return this.layout;
+  }
+
+  private stopTimer(): void {
+    if (this.partialTimer) {
+      clearInterval(this.partialTimer);
+      this.partialTimer = null;
+    }
+  }
+
+  private extension(): string {
+    return this.config.mimeType.split('/')[1]?.split(';')[0] || 'audio';
+  }
+}
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { userRepository, User } from '../repositories/userRepository';
+import { refreshTokenRepository, revokedTokenRepository, StoredRefreshToken } from '../repositories/tokenRepository';
+
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  jti: string;
+  ver: number;
+  iat: number;
+  exp: number;
+}
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+  refreshExpiresAt: string;
+}
+
+export class TokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenError';
+  }
+}
+
+export class TokenService {
+  private secret: string;
+
+  constructor() {
+    if (!process.env.JWT_SECRET) {
+      throw new Error('JWT_SECRET environment variable is not set');
+    }
+
+    this.secret = process.env.JWT_SECRET;
+  }
+
+  // Issue a fresh access/refresh pair that starts a new refresh token family
+  async issueTokens(user: User): Promise<TokenPair> {
+    return this.createPair(user, uuidv4());
+  }
+
+  // Exchange a refresh token for a new pair; replaying a rotated token revokes its whole family
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const [id, secret] = refreshToken.split('.');
+    if (!id || !secret) {
+      throw new TokenError('Malformed refresh token');
+    }
+
+    const stored = await refreshTokenRepository.findById(id);
+    if (!stored || !this.hashMatches(secret, stored.tokenHash)) {
+      throw new TokenError('Invalid refresh token');
+    }
+
+    if (stored.revokedAt) {
+      if (stored.replacedBy) {
+        await this.revokeReusedFamily(stored);
+      }
+      throw new TokenError('Refresh token has been revoked');
+    }
+
+    if (new Date(stored.expiresAt) < new Date()) {
+      throw new TokenError('Refresh token has expired');
+    }
+
+    const user = await userRepository.findById(stored.userId);
+    if (!user || user.status !== 'active') {
+      await refreshTokenRepository.revokeFamily(stored.familyId);
+      throw new TokenError('Account is disabled or no longer exists');
+    }
+
+    // Rotate first: a concurrent refresh with the same token loses here and is treated as reuse
+    const refreshId = uuidv4();
+    if (!(await refreshTokenRepository.markRotated(stored.id, refreshId))) {
+      await this.revokeReusedFamily(stored);
+      throw new TokenError('Refresh token has been revoked');
+    }
+
+    return this.createPair(user, stored.familyId, refreshId);
+  }
+
+  verifyAccessToken(token: string): AccessTokenPayload {
+    return jwt.verify(token, this.secret) as AccessTokenPayload;
+  }
+
+  async isAccessTokenRevoked(payload: AccessTokenPayload, user: User): Promise<boolean> {
+    if ((payload.ver || 0) !== (user.tokenVersion || 0)) {
+      return true;
+    }
+    return revokedTokenRepository.isRevoked(payload.jti);
+  }
+
+  // Log out a single session: block the access token and end its refresh token family
+  async revokeSession(payload: AccessTokenPayload, refreshToken?: string): Promise<void> {
+    await revokedTokenRepository.revoke(payload.jti, payload.id, new Date(payload.exp * 1000));
+
+    if (refreshToken) {
+      const stored = await refreshTokenRepository.findById(refreshToken.split('.')[0]);
+      if (stored && stored.userId === payload.id) {
+        await refreshTokenRepository.revokeFamily(stored.familyId);
+      }
+    }
+  }
+
+  // Lock a user out everywhere, e.g. after a lost device or password change
+  async revokeAllSessions(userId: string): Promise<void> {
+    await userRepository.incrementTokenVersion(userId);
+    await refreshTokenRepository.revokeAllForUser(userId);
+  }
+
+  private async revokeReusedFamily(stored: StoredRefreshToken): Promise<void> {
+    console.warn(`Refresh token reuse detected for user ${stored.userId}, revoking family ${stored.familyId}`);
+    await refreshTokenRepository.revokeFamily(stored.familyId);
+  }
+
+  private async createPair(user: User, familyId: string, refreshId: string = uuidv4()): Promise<TokenPair> {
+    const expiresIn = process.env.JWT_EXPIRES_IN || '15m';
+    const token = jwt.sign(
+      { id: user.id, email: user.email, ver: user.tokenVersion || 0 },
+      this.secret,
+      { expiresIn, jwtid: uuidv4() } as SignOptions
+    );
+
+    const refreshSecret = crypto.randomBytes(48).toString('base64url');
+    const ttlDays = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30') || 30;
+    const refreshExpiresAt = new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000).toISOString();
+
+    await refreshTokenRepository.create({
+      id: refreshId,
+      userId: user.id,
+      familyId,
+      tokenHash: this.hash(refreshSecret),
+      expiresAt: refreshExpiresAt
+    });
+
+    return {
+      token,
+      refreshToken: `${refreshId}.${refreshSecret}`,
+      expiresIn,
+      refreshExpiresAt
+    };
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private hashMatches(secret: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hash(secret), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+}
@@ -0,0 +1,147 @@
+import { AzureSpeechProvider } from './azureSpeech';
+import { TranscriptionRequest } from '../speechToText';
+import { FakeApiServer, RecordedRequest, startFakeApiServer, transcriptionRequest } from '../../testing/fakeApiServer';
+
+// Fast transcription requests are multipart: the audio file and a JSON definition
+const formOf = (request: RecordedRequest): Promise<FormData> =>
+  new Response(request.body, { headers: { 'Content-Type': request.headers['content-type'] || '' } }).formData();
+
+const definitionOf = async (request: RecordedRequest): Promise<Record<string, unknown>> =>
+  JSON.parse((await formOf(request)).get('definition') as string);
+
+const request = (overrides: Partial<TranscriptionRequest> = {}) => transcriptionRequest('azure', overrides);
+
+describe('AzureSpeechProvider', () => {
+  const provider = new AzureSpeechProvider();
+  let server: FakeApiServer | undefined;
+
+  beforeEach(() => {
+    process.env.AZURE_SPEECH_API_KEY = 'test-key';
+    delete process.env.AZURE_SPEECH_REGION;
+    delete process.env.AZURE_SPEECH_LOCALES;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    delete process.env.AZURE_SPEECH_ENDPOINT;
+    await server?.close();
+    server = undefined;
+  });
+
+  const serve = async (responses: Array<[number, unknown]>) => {
+    server = await startFakeApiServer(responses);
+    process.env.AZURE_SPEECH_ENDPOINT = server.endpoint;
+    return server.requests;
+  };
+
+  it('maps phrases to timed, speaker-labelled segments', async () => {
+    const requests = await serve([[200, {
+      durationMilliseconds: 4200,
+      combinedPhrases: [{ text: '¿Qué pasó? Choqué con un poste.' }],
+      phrases: [
+        { offsetMilliseconds: 100, durationMilliseconds: 900, text: '¿Qué pasó?', locale: 'es-MX', confidence: 0.9, speaker: 1 },
+        { offsetMilliseconds: 1500, durationMilliseconds: 2500, text: 'Choqué con un poste.', locale: 'es-MX', confidence: 0.8, speaker: 2 }
+      ]
+    }]]);
+
+    const result = await provider.transcribe(request({
+      hints: { prompt: '', phrases: ['quarter panel'] },
+      options: { model: 'azure', timestamp: true, speakerDiarization: true }
+    }));
+
+    expect(result).toEqual({
+      text: '¿Qué pasó? Choqué con un poste.',
+      model: 'azure',
+      wordCount: 6,
+      confidence: expect.closeTo(0.85),
+      language: 'es-MX',
+      duration: 4.2,
+      segments: [
+        { text: '¿Qué pasó?', start: 0.1, end: 1, speaker: 'SPEAKER_1' },
+        { text: 'Choqué con un poste.', start: 1.5, end: 4, speaker: 'SPEAKER_2' }
+      ]
+    });
+
+    const [sent] = requests;
+    expect(`${sent.method} ${sent.url}`).toBe('POST /speechtotext/transcriptions:transcribe?api-version=2024-11-15');
+    expect(sent.headers['ocp-apim-subscription-key']).toBe('test-key');
+    expect(await definitionOf(sent)).toEqual({
+      locales: ['en-US'],
+      profanityFilterMode: 'None',
+      phraseList: { phrases: ['quarter panel'] },
+      diarization: { enabled: true, maxSpeakers: 4 }
+    });
+    const audio = (await formOf(sent)).get('audio') as File;
+    expect(audio.name).toBe('note.webm');
+    expect(audio.type).toBe('audio/webm');
+    expect(Buffer.from(await audio.arrayBuffer()).toString()).toBe('audio');
+  });
+
+  it('joins phrase text when there are no combined phrases', async () => {
+    const requests = await serve([[200, {
+      phrases: [
+        { offsetMilliseconds: 0, durationMilliseconds: 1200, text: 'Replace the bumper cover.' },
+        { offsetMilliseconds: 1200, durationMilliseconds: 800, text: 'Blend the fender.' }
+      ]
+    }]]);
+
+    const result = await provider.transcribe(request({
+      options: { model: 'azure', timestamp: true, speakerDiarization: false, language: 'en-GB' }
+    }));
+
+    expect(result).toEqual({
+      text: 'Replace the bumper cover. Blend the fender.',
+      model: 'azure',
+      wordCount: 7,
+      confidence: undefined,
+      segments: [
+        { text: 'Replace the bumper cover.', start: 0, end: 1.2, speaker: undefined },
+        { text: 'Blend the fender.', start: 1.2, end: 2, speaker: undefined }
+      ]
+    });
+    expect(await definitionOf(requests[0])).toEqual({
+      locales: ['en-GB'],
+      profanityFilterMode: 'None'
+    });
+  });
+
+  it('offers the configured candidate locales when no language is given', async () => {
+    process.env.AZURE_SPEECH_LOCALES = 'en-US, es-MX';
+    const requests = await serve([[200, { durationMilliseconds: 0 }]]);
+
+    await expect(provider.transcribe(request())).resolves.toEqual({
+      text: '',
+      model: 'azure',
+      wordCount: 0,
+      confidence: undefined,
+      duration: 0
+    });
+    expect((await definitionOf(requests[0])).locales).toEqual(['en-US', 'es-MX']);
+  });
+
+  it('reports the error message from a rejected request', async () => {
+    await serve([[401, { error: { code: 'InvalidSubscriptionKey', message: 'The subscription key is invalid' } }]]);
+
+    await expect(provider.transcribe(request())).rejects.toThrow(
+      'Azure Speech transcription failed: HTTP 401: The subscription key is invalid'
+    );
+  });
+
+  it('reports the status when the error body has no message', async () => {
+    await serve([[503, {}]]);
+
+    await expect(provider.transcribe(request())).rejects.toThrow('Azure Speech transcription failed: HTTP 503');
+  });
+
+  it('requires a key and a region or endpoint', async () => {
+    expect(provider.isConfigured()).toBe(false);
+    await expect(provider.transcribe(request())).rejects.toThrow(
+      'AZURE_SPEECH_REGION or AZURE_SPEECH_ENDPOINT environment variable is required'
+    );
+
+    delete process.env.AZURE_SPEECH_API_KEY;
+    await expect(provider.transcribe(request())).rejects.toThrow('AZURE_SPEECH_API_KEY environment variable is required');
+  });
+});
@@ -0,0 +1,120 @@
+import axios from 'axios';
+import { TranscriptionRequest, TranscriptionResult } from '../speechToText';
+import { TranscriptionProvider } from './registry';
+import { countWords, describeHttpError } from './http';
+
+interface AzurePhrase {
+  offsetMilliseconds: number;
+  durationMilliseconds: number;
+  text: string;
+  locale?: string;
+  confidence?: number;
+  speaker?: number;
+}
+
+interface AzureTranscribeResponse {
+  durationMilliseconds?: number;
+  combinedPhrases?: Array<{ text: string }>;
+  phrases?: AzurePhrase[];
+}
+
+export class AzureSpeechProvider implements TranscriptionProvider {
+  readonly name = 'azure';
+  readonly description = 'Azure AI Speech fast transcription (REST)';
+
+  isConfigured(): boolean {
+    return !!process.env.AZURE_SPEECH_API_KEY && !!(process.env.AZURE_SPEECH_REGION || process.env.AZURE_SPEECH_ENDPOINT);
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const apiKey = process.env.AZURE_SPEECH_API_KEY;
+    if (!apiKey) {
+      throw new Error('AZURE_SPEECH_API_KEY environment variable is required');
+    }
+
+    const endpoint = process.env.AZURE_SPEECH_ENDPOINT ||
+      (process.env.AZURE_SPEECH_REGION && `https://${process.env.AZURE_SPEECH_REGION}.api.cognitive.microsoft.com`);
+    if (!endpoint) {
+      throw new Error('AZURE_SPEECH_REGION or AZURE_SPEECH_ENDPOINT environment variable is required');
+    }
+
+    // Without a language Azure identifies the locale from a candidate list
+    const locales = request.options.language
+      ? [request.options.language]
+      : (process.env.AZURE_SPEECH_LOCALES || 'en-US').split(',').map(locale => locale.trim());
+
+    const definition = {
+      locales,
+      profanityFilterMode: 'None',
+      ...(request.hints && {
+        phraseList: { phrases: request.hints.phrases }
+      }),
+      ...(request.options.speakerDiarization && {
+        diarization: { enabled: true, maxSpeakers: 4 }
+      })
+    };
+
+    const form = new FormData();
+    form.append('audio', new Blob([request.audioBuffer], { type: request.mimeType }), request.fileName);
+    form.append('definition', JSON.stringify(definition));
+
+    try {
+      console.log('Starting Azure fast transcription...');
+      // Fast transcription uploads and recognizes in a single request
+      request.onProgress?.('transcribing');
+      const { data } = await axios.post<AzureTranscribeResponse>(
+        `${endpoint}/speechtotext/transcriptions:transcribe`,
+        form,
+        {
+          params: { 'api-version': '2024-11-15' },
+          headers: { 'Ocp-Apim-Subscription-Key': apiKey },
+          maxBodyLength: Infinity
+        }
+      );
+
+      return this.mapResponse(data);
+    } catch (error) {
+      console.error('Azure Speech transcription error:', describeHttpError(error));
+      throw new Error(`Azure Speech transcription failed: ${describeHttpError(error)}`);
+    }
+  }
+
+  private mapResponse(data: AzureTranscribeResponse): TranscriptionResult {
+    const phrases = data.phrases || [];
+    const text = (data.combinedPhrases || []).map(phrase => phrase.text).join(' ').trim() ||
+      phrases.map(phrase => phrase.text).join(' ');
+
+    const confidences = phrases
+      .map(phrase => phrase.confidence)
+      .filter((confidence): confidence is number => typeof confidence === 'number');
+
+    const transcriptionResult: TranscriptionResult = {
+      text,
+      model: this.name,
+      wordCount: countWords(text),
+      confidence: confidences.length > 0
+        ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+        : undefined
+    };
+
+    const language = phrases.find(phrase => phrase.locale)?.locale;
+    if (language) {
+      transcriptionResult.language = language;
+    }
+
+    if (data.durationMilliseconds !== undefined) {
+      transcriptionResult.duration = data.durationMilliseconds / 1000;
+    }
+
+    if (phrases.length > 0) {
+      transcriptionResult.segments = phrases.map(phrase => ({
+        text: phrase.text,
+        start: phrase.offsetMilliseconds / 1000,
+        end: (phrase.offsetMilliseconds + phrase.durationMilliseconds) / 1000,
+        speaker: phrase.speaker !== undefined ? `SPEAKER_${phrase.speaker}` : undefined
+      }));
+    }
+
+    return transcriptionResult;
+  }
+}
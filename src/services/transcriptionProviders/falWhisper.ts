@@ -0,0 +1,90 @@
+import { fal } from '@fal-ai/client';
+import { TranscriptionRequest, TranscriptionResult } from '../speechToText';
+import { TranscriptionProvider } from './registry';
+
+export class FalWhisperProvider implements TranscriptionProvider {
+  readonly name = 'fal-whisper';
+  readonly description = 'OpenAI Whisper v3 hosted on fal.ai';
+
+  private configuredKey?: string;
+
+  isConfigured(): boolean {
+    return !!process.env.FAL_KEY;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    this.configureClient();
+
+    try {
+      // Upload audio file to fal.ai storage
+      const file = new File([request.audioBuffer], request.fileName, {
+        type: request.mimeType,
+      });
+      
+      console.log('Uploading audio file to fal.ai storage...');
+      request.onProgress?.('uploading');
+      const audioUrl = await fal.storage.upload(file);
+      
+      console.log('Starting fal.ai Whisper transcription...');
+      request.onProgress?.('transcribing');
+      const result = await fal.subscribe('fal-ai/whisper', {
+        input: {
+          audio_url: audioUrl,
+          task: 'transcribe',
+          language: request.options.language as any, // Cast to any for language compatibility
+          diarize: request.options.speakerDiarization,
+          chunk_level: request.options.timestamp ? 'segment' : 'word',
+          version: '3',
+          prompt: request.hints?.prompt,
+        },
+        logs: true,
+        onQueueUpdate: (update) => {
+          if (update.status === 'IN_PROGRESS') {
+            console.log('Transcription in progress...');
+          }
+        },
+      });
+
+      // Map fal.ai response to our TranscriptionResult format
+      const transcriptionResult: TranscriptionResult = {
+        text: result.data.text,
+        model: this.name,
+        wordCount: result.data.text.split(' ').length,
+        confidence: 0.9, // fal.ai doesn't provide confidence, using default
+      };
+
+      // Add language if detected
+      if (result.data.inferred_languages && result.data.inferred_languages.length > 0) {
+        transcriptionResult.language = result.data.inferred_languages[0];
+      }
+
+      // Add segments/chunks if available
+      if (result.data.chunks && result.data.chunks.length > 0) {
+        transcriptionResult.segments = result.data.chunks.map((chunk: any) => ({
+          text: chunk.text,
+          start: chunk.timestamp[0],
+          end: chunk.timestamp[1],
+          speaker: chunk.speaker, // Available if diarization is enabled
+        }));
+      }
+
+      return transcriptionResult;
+    } catch (error) {
+      console.error('Fal.ai Whisper transcription error:', error);
+      throw new Error(`Fal.ai Whisper transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private configureClient(): void {
+    if (!process.env.FAL_KEY) {
+      throw new Error('FAL_KEY environment variable is required');
+    }
+
+    if (this.configuredKey !== process.env.FAL_KEY) {
+      fal.config({
+        credentials: process.env.FAL_KEY,
+      });
+      this.configuredKey = process.env.FAL_KEY;
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { GoogleSpeechProvider } from './googleSpeech';
+import { TranscriptionRequest } from '../speechToText';
+import { FakeApiServer, RecordedRequest, startFakeApiServer, transcriptionRequest } from '../../testing/fakeApiServer';
+
+// The parts of a longrunningrecognize request the assertions read
+interface RecognizeBody {
+  config: Record<string, unknown>;
+  audio: { content: string };
+}
+
+const recognizeBody = (request: RecordedRequest): RecognizeBody => JSON.parse(request.body.toString());
+
+const request = (overrides: Partial<TranscriptionRequest> = {}) => transcriptionRequest('google', overrides);
+
+describe('GoogleSpeechProvider', () => {
+  const provider = new GoogleSpeechProvider();
+  let server: FakeApiServer | undefined;
+
+  beforeEach(() => {
+    process.env.GOOGLE_SPEECH_API_KEY = 'test-key';
+    process.env.GOOGLE_SPEECH_POLL_INTERVAL_MS = '1';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    delete process.env.GOOGLE_SPEECH_ENDPOINT;
+    await server?.close();
+    server = undefined;
+  });
+
+  const serve = async (responses: Array<[number, unknown]>) => {
+    server = await startFakeApiServer(responses);
+    process.env.GOOGLE_SPEECH_ENDPOINT = server.endpoint;
+    return server.requests;
+  };
+
+  it('polls the operation and maps each result to a segment', async () => {
+    const requests = await serve([
+      [200, { name: 'op-1' }],
+      [200, { name: 'op-1', done: false }],
+      [200, {
+        name: 'op-1',
+        done: true,
+        response: {
+          results: [
+            {
+              alternatives: [{ transcript: ' Left quarter panel is dented. ', confidence: 0.9, words: [{ word: 'Left', startTime: '0.400s', endTime: '0.700s' }] }],
+              resultEndTime: '2.500s',
+              languageCode: 'en-us'
+            },
+            { alternatives: [{ transcript: 'Replace the bumper cover.', confidence: 0.7 }], resultEndTime: '4.100s' },
+            { alternatives: [{}], resultEndTime: '5s' }
+          ]
+        }
+      }]
+    ]);
+
+    const result = await provider.transcribe(request({ hints: { prompt: '', phrases: ['quarter panel'] } }));
+
+    expect(result).toEqual({
+      text: 'Left quarter panel is dented. Replace the bumper cover.',
+      model: 'google',
+      wordCount: 9,
+      confidence: expect.closeTo(0.8),
+      language: 'en-us',
+      segments: [
+        { text: 'Left quarter panel is dented.', start: 0.4, end: 2.5 },
+        { text: 'Replace the bumper cover.', start: 2.5, end: 4.1 }
+      ],
+      duration: 4.1
+    });
+
+    expect(requests.map(entry => `${entry.method} ${entry.url}`)).toEqual([
+      'POST /v1p1beta1/speech:longrunningrecognize?key=test-key',
+      'GET /v1p1beta1/operations/op-1?key=test-key',
+      'GET /v1p1beta1/operations/op-1?key=test-key'
+    ]);
+    expect(recognizeBody(requests[0])).toEqual({
+      config: {
+        encoding: 'WEBM_OPUS',
+        sampleRateHertz: 48000,
+        languageCode: 'en-US',
+        enableAutomaticPunctuation: true,
+        enableWordTimeOffsets: true,
+        enableWordConfidence: true,
+        speechContexts: [{ phrases: ['quarter panel'] }]
+      },
+      audio: { content: Buffer.from('audio').toString('base64') }
+    });
+  });
+
+  it('groups the final result\'s words by speaker when diarizing', async () => {
+    const requests = await serve([[200, {
+      name: 'op-2',
+      done: true,
+      response: {
+        results: [
+          { alternatives: [{ transcript: 'What happened? I backed into a pole.' }] },
+          {
+            alternatives: [{
+              words: [
+                { word: 'What', startTime: '0s', endTime: '0.300s', speakerTag: 1 },
+                { word: 'happened?', startTime: '0.300s', endTime: '0.900s', speakerTag: 1 },
+                { word: 'I', startTime: '1.200s', endTime: '1.300s', speakerTag: 2 },
+                { word: 'backed', startTime: '1.300s', endTime: '1.600s', speakerTag: 2 },
+                { word: 'into', startTime: '1.600s', endTime: '1.800s', speakerTag: 2 },
+                { word: 'a', startTime: '1.800s', endTime: '1.900s', speakerTag: 2 },
+                { word: 'pole.', startTime: '1.900s', endTime: '2.300s', speakerTag: 2 }
+              ]
+            }]
+          }
+        ]
+      }
+    }]]);
+
+    const result = await provider.transcribe(request({
+      mimeType: 'audio/wav',
+      options: { model: 'google', timestamp: false, speakerDiarization: true, language: 'es-MX' }
+    }));
+
+    expect(result.text).toBe('What happened? I backed into a pole.');
+    expect(result.confidence).toBeUndefined();
+    expect(result.segments).toEqual([
+      { text: 'What happened?', start: 0, end: 0.9, speaker: 'SPEAKER_1' },
+      { text: 'I backed into a pole.', start: 1.2, end: 2.3, speaker: 'SPEAKER_2' }
+    ]);
+    expect(result.duration).toBe(2.3);
+    expect(recognizeBody(requests[0]).config).toEqual({
+      languageCode: 'es-MX',
+      enableAutomaticPunctuation: true,
+      enableWordTimeOffsets: true,
+      enableWordConfidence: true,
+      diarizationConfig: { enableSpeakerDiarization: true }
+    });
+  });
+
+  it('returns an empty transcript when nothing was recognized', async () => {
+    await serve([[200, { name: 'op-3', done: true, response: {} }]]);
+
+    await expect(provider.transcribe(request())).resolves.toEqual({
+      text: '',
+      model: 'google',
+      wordCount: 0,
+      confidence: undefined
+    });
+  });
+
+  it('reports the error message from a rejected request', async () => {
+    await serve([[400, { error: { code: 400, message: 'Invalid recognition config', status: 'INVALID_ARGUMENT' } }]]);
+
+    await expect(provider.transcribe(request())).rejects.toThrow(
+      'Google Speech-to-Text transcription failed: HTTP 400: Invalid recognition config'
+    );
+  });
+
+  it('reports an operation that finished with an error', async () => {
+    await serve([
+      [200, { name: 'op-4' }],
+      [200, { name: 'op-4', done: true, error: { code: 3, message: 'Audio could not be decoded' } }]
+    ]);
+
+    await expect(provider.transcribe(request())).rejects.toThrow(
+      'Google Speech-to-Text transcription failed: Audio could not be decoded'
+    );
+  });
+
+  it('refuses audio types it has no encoding for without calling the API', async () => {
+    const requests = await serve([]);
+
+    await expect(provider.transcribe(request({ mimeType: 'audio/mp4' }))).rejects.toThrow(
+      'Google Speech-to-Text does not support audio/mp4 audio'
+    );
+    expect(requests).toHaveLength(0);
+  });
+
+  it('requires an API key', async () => {
+    delete process.env.GOOGLE_SPEECH_API_KEY;
+
+    expect(provider.isConfigured()).toBe(false);
+    await expect(provider.transcribe(request())).rejects.toThrow('GOOGLE_SPEECH_API_KEY environment variable is required');
+  });
+});
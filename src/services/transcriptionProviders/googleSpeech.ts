@@ -0,0 +1,199 @@
+import axios from 'axios';
+import { TranscriptionRequest, TranscriptionResult, TranscriptionSegment } from '../speechToText';
+import { TranscriptionProvider } from './registry';
+import { countWords, describeHttpError } from './http';
+
+interface GoogleWordInfo {
+  startTime?: string;
+  endTime?: string;
+  word: string;
+  speakerTag?: number;
+}
+
+interface GoogleRecognitionResult {
+  alternatives?: Array<{
+    transcript?: string;
+    confidence?: number;
+    words?: GoogleWordInfo[];
+  }>;
+  resultEndTime?: string;
+  languageCode?: string;
+}
+
+interface GoogleOperation {
+  name: string;
+  done?: boolean;
+  error?: { code: number; message: string };
+  response?: { results?: GoogleRecognitionResult[] };
+}
+
+// Google reads the rate from WAV/FLAC headers; compressed formats need it spelled out
+const ENCODINGS: Record<string, { encoding?: string; sampleRateHertz?: number }> = {
+  'audio/wav': {},
+  'audio/flac': {},
+  'audio/mpeg': { encoding: 'MP3', sampleRateHertz: 44100 },
+  'audio/mp3': { encoding: 'MP3', sampleRateHertz: 44100 },
+  'audio/webm': { encoding: 'WEBM_OPUS', sampleRateHertz: 48000 },
+  'audio/ogg': { encoding: 'OGG_OPUS', sampleRateHertz: 48000 }
+};
+
+export class GoogleSpeechProvider implements TranscriptionProvider {
+  readonly name = 'google';
+  readonly description = 'Google Cloud Speech-to-Text (REST, long-running recognize)';
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_SPEECH_API_KEY;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const apiKey = process.env.GOOGLE_SPEECH_API_KEY;
+    if (!apiKey) {
+      throw new Error('GOOGLE_SPEECH_API_KEY environment variable is required');
+    }
+
+    const encoding = ENCODINGS[request.mimeType];
+    if (!encoding) {
+      throw new Error(`Google Speech-to-Text does not support ${request.mimeType} audio`);
+    }
+
+    const endpoint = process.env.GOOGLE_SPEECH_ENDPOINT || 'https://speech.googleapis.com';
+
+    try {
+      console.log('Starting Google Speech-to-Text recognition...');
+      request.onProgress?.('uploading');
+      const { data: operation } = await axios.post<GoogleOperation>(
+        `${endpoint}/v1p1beta1/speech:longrunningrecognize`,
+        {
+          config: {
+            ...encoding,
+            languageCode: request.options.language || 'en-US',
+            // Without a language Google picks the best match among these and reports it per result
+            ...(!request.options.language && process.env.GOOGLE_SPEECH_ALTERNATIVE_LANGUAGES && {
+              alternativeLanguageCodes: process.env.GOOGLE_SPEECH_ALTERNATIVE_LANGUAGES.split(',').map(code => code.trim())
+            }),
+            enableAutomaticPunctuation: true,
+            enableWordTimeOffsets: request.options.timestamp || request.options.speakerDiarization,
+            enableWordConfidence: true,
+            ...(request.hints && {
+              speechContexts: [{ phrases: request.hints.phrases }]
+            }),
+            ...(request.options.speakerDiarization && {
+              diarizationConfig: { enableSpeakerDiarization: true }
+            })
+          },
+          audio: { content: request.audioBuffer.toString('base64') }
+        },
+        { params: { key: apiKey } }
+      );
+
+      request.onProgress?.('transcribing');
+      const completed = await this.waitForOperation(endpoint, apiKey, operation);
+      return this.mapResults(completed.response?.results || [], request);
+    } catch (error) {
+      console.error('Google Speech-to-Text error:', describeHttpError(error));
+      throw new Error(`Google Speech-to-Text transcription failed: ${describeHttpError(error)}`);
+    }
+  }
+
+  private async waitForOperation(endpoint: string, apiKey: string, operation: GoogleOperation): Promise<GoogleOperation> {
+    const pollIntervalMs = parseInt(process.env.GOOGLE_SPEECH_POLL_INTERVAL_MS || '1000') || 1000;
+    const deadline = Date.now() + (parseInt(process.env.GOOGLE_SPEECH_TIMEOUT_MS || '600000') || 600000);
+    let current = operation;
+
+    while (!current.done) {
+      if (Date.now() > deadline) {
+        throw new Error(`Operation ${operation.name} did not finish in time`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+      const { data } = await axios.get<GoogleOperation>(
+        `${endpoint}/v1p1beta1/operations/${operation.name}`,
+        { params: { key: apiKey } }
+      );
+      current = data;
+    }
+
+    if (current.error) {
+      throw new Error(current.error.message);
+    }
+
+    return current;
+  }
+
+  private mapResults(results: GoogleRecognitionResult[], request: TranscriptionRequest): TranscriptionResult {
+    const recognized = results.filter(result => result.alternatives?.[0]?.transcript);
+    const text = recognized.map(result => result.alternatives![0].transcript!.trim()).join(' ');
+
+    const confidences = recognized
+      .map(result => result.alternatives![0].confidence)
+      .filter((confidence): confidence is number => typeof confidence === 'number');
+
+    const transcriptionResult: TranscriptionResult = {
+      text,
+      model: this.name,
+      wordCount: countWords(text),
+      confidence: confidences.length > 0
+        ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+        : undefined
+    };
+
+    const language = recognized.find(result => result.languageCode)?.languageCode;
+    if (language) {
+      transcriptionResult.language = language;
+    }
+
+    const segments = request.options.speakerDiarization
+      ? this.speakerSegments(results)
+      : this.resultSegments(recognized);
+
+    if (segments.length > 0) {
+      transcriptionResult.segments = segments;
+      transcriptionResult.duration = segments[segments.length - 1].end;
+    }
+
+    return transcriptionResult;
+  }
+
+  // One segment per recognition result, spanning from the previous result's end
+  private resultSegments(results: GoogleRecognitionResult[]): TranscriptionSegment[] {
+    let previousEnd = 0;
+    return results.map(result => {
+      const alternative = result.alternatives![0];
+      const end = this.parseDuration(result.resultEndTime) ?? previousEnd;
+      const start = this.parseDuration(alternative.words?.[0]?.startTime) ?? previousEnd;
+      previousEnd = end;
+      return { text: alternative.transcript!.trim(), start, end };
+    });
+  }
+
+  // With diarization Google repeats every word with its speakerTag in the final result
+  private speakerSegments(results: GoogleRecognitionResult[]): TranscriptionSegment[] {
+    const words = results[results.length - 1]?.alternatives?.[0]?.words || [];
+    const segments: TranscriptionSegment[] = [];
+
+    for (const word of words) {
+      const speaker = word.speakerTag !== undefined ? `SPEAKER_${word.speakerTag}` : undefined;
+      const start = this.parseDuration(word.startTime) ?? 0;
+      const end = this.parseDuration(word.endTime) ?? start;
+      const current = segments[segments.length - 1];
+
+      if (current && current.speaker === speaker) {
+        current.text += ` ${word.word}`;
+        current.end = end;
+      } else {
+        segments.push({ text: word.word, start, end, speaker });
+      }
+    }
+
+    return segments;
+  }
+
+  // Google encodes durations as strings such as "3.400s"
+  private parseDuration(value?: string): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const seconds = parseFloat(value.replace(/s$/, ''));
+    return isNaN(seconds) ? undefined : seconds;
+  }
+}
@@ -0,0 +1,25 @@
+import axios from 'axios';
+
+const field = (value: unknown, name: string): unknown =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>)[name] : undefined;
+
+// Providers put the reason in { error: { message } }, { error } or { message }
+const errorDetail = (data: unknown): unknown => {
+  const error = field(data, 'error');
+  return field(error, 'message') || error || field(data, 'message');
+};
+
+// Turn an axios failure into a message that names the upstream status and error body
+export const describeHttpError = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const detail = errorDetail(error.response?.data);
+    if (error.response) {
+      return `HTTP ${error.response.status}${detail ? `: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}` : ''}`;
+    }
+    return error.message;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+};
+
+export const countWords = (text: string): number =>
+  text.trim() ? text.trim().split(/\s+/).length : 0;
@@ -0,0 +1,138 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { TranscriptionRequest, TranscriptionResult, TranscriptionSegment } from '../speechToText';
+import { TranscriptionProvider } from './registry';
+import { countWords } from './http';
+
+const execFileAsync = promisify(execFile);
+
+interface WhisperCppSegment {
+  offsets: { from: number; to: number }; // milliseconds
+  text: string;
+  speaker_turn_next?: boolean;
+}
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: WhisperCppSegment[];
+}
+
+// Runs whisper.cpp on the server so audio never leaves the shop network
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly name = 'local-whisper';
+  readonly description = 'Whisper running locally on the server CPU (whisper.cpp)';
+
+  isConfigured(): boolean {
+    return !!process.env.LOCAL_WHISPER_MODEL;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const modelPath = process.env.LOCAL_WHISPER_MODEL;
+    if (!modelPath) {
+      throw new Error('LOCAL_WHISPER_MODEL environment variable is required');
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-whisper-'));
+
+    try {
+      const inputPath = path.join(workDir, `input${path.extname(request.fileName) || '.audio'}`);
+      await fs.writeFile(inputPath, request.audioBuffer);
+
+      // whisper.cpp expects 16 kHz mono PCM WAV
+      const wavPath = path.join(workDir, 'input.wav');
+      await this.run(process.env.FFMPEG_PATH || 'ffmpeg', [
+        '-hide_banner', '-loglevel', 'error', '-y',
+        '-i', inputPath,
+        '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le',
+        wavPath
+      ]);
+
+      const outputBase = path.join(workDir, 'output');
+      const args = [
+        '-m', modelPath,
+        '-f', wavPath,
+        '-l', request.options.language || 'auto',
+        '-t', process.env.LOCAL_WHISPER_THREADS || String(Math.max(1, os.cpus().length)),
+        '-oj',
+        '-of', outputBase,
+        '-np'
+      ];
+
+      if (request.hints) {
+        args.push('--prompt', request.hints.prompt);
+      }
+
+      // Speaker turns need a tinydiarize (*-tdrz) model
+      if (request.options.speakerDiarization) {
+        args.push('-tdrz');
+      }
+
+      console.log('Starting local Whisper transcription...');
+      request.onProgress?.('transcribing');
+      await this.run(process.env.LOCAL_WHISPER_BIN || 'whisper-cli', args);
+
+      const output = JSON.parse(await fs.readFile(`${outputBase}.json`, 'utf8')) as WhisperCppOutput;
+      return this.mapOutput(output, request);
+    } catch (error) {
+      console.error('Local Whisper transcription error:', error);
+      throw new Error(`Local Whisper transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private mapOutput(output: WhisperCppOutput, request: TranscriptionRequest): TranscriptionResult {
+    const rawSegments = (output.transcription || []).filter(segment => segment.text.trim());
+    const text = rawSegments.map(segment => segment.text.trim()).join(' ');
+
+    const transcriptionResult: TranscriptionResult = {
+      text,
+      model: this.name,
+      wordCount: countWords(text)
+    };
+
+    if (output.result?.language) {
+      transcriptionResult.language = output.result.language;
+    }
+
+    if (rawSegments.length > 0) {
+      let speakerIndex = 0;
+      transcriptionResult.segments = rawSegments.map((segment): TranscriptionSegment => {
+        const mapped: TranscriptionSegment = {
+          text: segment.text.trim(),
+          start: segment.offsets.from / 1000,
+          end: segment.offsets.to / 1000
+        };
+
+        if (request.options.speakerDiarization) {
+          mapped.speaker = `SPEAKER_${speakerIndex}`;
+          if (segment.speaker_turn_next) {
+            speakerIndex = speakerIndex === 0 ? 1 : 0;
+          }
+        }
+
+        return mapped;
+      });
+      transcriptionResult.duration = transcriptionResult.segments[transcriptionResult.segments.length - 1].end;
+    }
+
+    return transcriptionResult;
+  }
+
+  private async run(command: string, args: string[]): Promise<void> {
+    const timeoutMs = parseInt(process.env.LOCAL_WHISPER_TIMEOUT_MS || '900000') || 900000;
+
+    try {
+      await execFileAsync(command, args, { timeout: timeoutMs, maxBuffer: 64 * 1024 * 1024 });
+    } catch (error) {
+      const failure = error as NodeJS.ErrnoException & { stderr?: string };
+      if (failure.code === 'ENOENT') {
+        throw new Error(`${command} was not found; install it or set its path in the environment`);
+      }
+      throw new Error(`${path.basename(command)} failed: ${failure.stderr?.trim() || failure.message}`);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { TranscriptionRequest, TranscriptionResult } from '../speechToText';
+import { FalWhisperProvider } from './falWhisper';
+import { GoogleSpeechProvider } from './googleSpeech';
+import { AzureSpeechProvider } from './azureSpeech';
+import { LocalWhisperProvider } from './localWhisper';
+
+// Contract every speech-to-text backend implements
+export interface TranscriptionProvider {
+  readonly name: string;
+  readonly description: string;
+  // Whether the credentials/configuration the provider needs are present
+  isConfigured(): boolean;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+const providers = new Map<string, TranscriptionProvider>();
+
+export const registerTranscriptionProvider = (provider: TranscriptionProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+export const getTranscriptionProvider = (name: string): TranscriptionProvider | undefined =>
+  providers.get(name);
+
+export const hasTranscriptionProvider = (name: string): boolean => providers.has(name);
+
+export const listTranscriptionProviders = (): Array<{ name: string; description: string; configured: boolean }> =>
+  Array.from(providers.values()).map(provider => ({
+    name: provider.name,
+    description: provider.description,
+    configured: provider.isConfigured()
+  }));
+
+// Built-in providers
+registerTranscriptionProvider(new FalWhisperProvider());
+registerTranscriptionProvider(new GoogleSpeechProvider());
+registerTranscriptionProvider(new AzureSpeechProvider());
+registerTranscriptionProvider(new LocalWhisperProvider());
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { TranscriptionResult, TranscriptionSegment } from './speechToText';
+import { countWords } from './transcriptionProviders/http';
+import { DEFAULT_EXTRACTION_PROVIDER, getExtractionProvider } from './extractionProviders/registry';
+import { shopRepository } from '../repositories/shopRepository';
+
+// English rendering of a transcript, stored next to the original text
+export interface TranscriptTranslation {
+  language: 'en';
+  sourceLanguage: string;
+  text: string;
+  segments?: TranscriptionSegment[]; // One per speaker turn, spanning the original segments' timings
+  wordCount: number;
+  provider: string;
+  model?: string;
+}
+
+export interface TranslationOptions {
+  provider?: string;
+  model?: string;
+}
+
+const translationResponseSchema = z.object({
+  translations: z.array(z.string())
+});
+
+// Consecutive segments from the same speaker, or all of them when there was no diarization
+const groupTurns = (segments: TranscriptionSegment[]): TranscriptionSegment[][] => {
+  const turns: TranscriptionSegment[][] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    if (last && last[0].speaker === segment.speaker) {
+      last.push(segment);
+    } else {
+      turns.push([segment]);
+    }
+  }
+  return turns;
+};
+
+const joinText = (segments: TranscriptionSegment[]): string =>
+  segments.map(segment => segment.text.trim()).filter(Boolean).join(' ');
+
+// No detected language is treated as English, as that is what every provider defaults to
+export const isEnglish = (language?: string): boolean =>
+  !language || /^en(?:[-_]|$)/i.test(language) || /^english$/i.test(language);
+
+// The text and segments extraction should read: the English translation when there is one
+export const extractionSource = (result: TranscriptionResult): { text: string; segments?: TranscriptionSegment[] } =>
+  result.translation
+    ? { text: result.translation.text, segments: result.translation.segments }
+    : { text: result.text, segments: result.segments };
+
+// Translates transcripts with the shop's language-model extraction provider
+export class TranslationService {
+  constructor(private options: TranslationOptions = {}) {}
+
+  // TRANSLATION_PROVIDER wins over the shop's extraction provider, which wins over EXTRACTION_PROVIDER
+  static async forShop(shopId: string): Promise<TranslationService> {
+    if (process.env.TRANSLATION_PROVIDER) {
+      return new TranslationService({ provider: process.env.TRANSLATION_PROVIDER, model: process.env.TRANSLATION_MODEL });
+    }
+
+    const shop = await shopRepository.findById(shopId);
+    return new TranslationService({
+      provider: shop?.extractionProvider,
+      model: process.env.TRANSLATION_MODEL ?? shop?.extractionModel
+    });
+  }
+
+  /**
+   * Translate a non-English transcript to English. Each speaker turn is translated as one passage:
+   * whole sentences translate better than the word or phrase chunks providers split audio into, and
+   * the translated turns keep their speaker and time span for evidence timestamps and speaker roles.
+   */
+  async toEnglish(result: TranscriptionResult): Promise<TranscriptTranslation> {
+    const providerName = this.options.provider || DEFAULT_EXTRACTION_PROVIDER;
+    const provider = getExtractionProvider(providerName);
+    if (!provider) {
+      throw new Error(`Unknown extraction provider: ${providerName}`);
+    }
+    if (provider.kind !== 'llm') {
+      throw new Error(`Extraction provider ${providerName} cannot translate`);
+    }
+    if (!provider.isConfigured()) {
+      throw new Error(`Extraction provider ${providerName} is not configured`);
+    }
+
+    const sourceLanguage = result.language || 'unknown';
+    const turns = result.segments?.length ? groupTurns(result.segments) : undefined;
+    const passages = turns ? turns.map(joinText) : [result.text];
+
+    const completion = await provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content: 'You translate automotive repair shop voice notes into English for work orders. Keep trade terms, part names, part numbers, VINs, plates, amounts and measurements exactly as spoken.'
+        },
+        {
+          role: 'user',
+          content: `Translate each passage below from ${sourceLanguage === 'unknown' ? 'its language' : `language "${sourceLanguage}"`} into English. Return a JSON object { "translations": [...] } with exactly ${passages.length} strings, one per passage, in the same order. Passages already in English are returned unchanged.
+
+${JSON.stringify(passages)}`
+        }
+      ],
+      transcription: result.text,
+      fields: [],
+      model: this.options.model
+    });
+
+    let parsed: z.infer<typeof translationResponseSchema>;
+    try {
+      parsed = translationResponseSchema.parse(JSON.parse(completion.content));
+    } catch {
+      throw new Error('Translation response was not a JSON list of translations');
+    }
+    if (parsed.translations.length !== passages.length) {
+      throw new Error(`Translation returned ${parsed.translations.length} passages for ${passages.length}`);
+    }
+
+    const translatedSegments = turns?.map((turn, index) => ({
+      ...turn[0],
+      text: parsed.translations[index].trim(),
+      end: turn[turn.length - 1].end
+    }));
+    const text = translatedSegments ? joinText(translatedSegments) : parsed.translations[0].trim();
+
+    return {
+      language: 'en',
+      sourceLanguage,
+      text,
+      ...(translatedSegments && { segments: translatedSegments }),
+      wordCount: countWords(text),
+      provider: providerName,
+      model: completion.model
+    };
+  }
+}
@@ -0,0 +1,110 @@
+export interface VinDecoding {
+  vin: string;
+  wmi: string;
+  manufacturer?: string;
+  region: string;
+  modelYear?: number;
+  checkDigit: string;
+  expectedCheckDigit: string;
+  checksumValid: boolean;
+  checksumRequired: boolean; // Only North American VINs must carry a valid check digit
+}
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Model year codes repeat every 30 years starting at 1980
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+// World manufacturer identifiers for makes commonly seen in collision and mechanical shops
+const WMI_MANUFACTURERS: Record<string, string> = {
+  '19X': 'Honda', '1C3': 'Chrysler', '1C4': 'Jeep', '1C6': 'Ram', '1D7': 'Dodge', '1FA': 'Ford',
+  '1FD': 'Ford', '1FM': 'Ford', '1FT': 'Ford', '1G1': 'Chevrolet', '1G4': 'Buick', '1G6': 'Cadillac',
+  '1GC': 'Chevrolet', '1GN': 'Chevrolet', '1GT': 'GMC', '1GK': 'GMC', '1HG': 'Honda', '1J4': 'Jeep',
+  '1LN': 'Lincoln', '1N4': 'Nissan', '1N6': 'Nissan', '1VW': 'Volkswagen', '2C3': 'Chrysler',
+  '2C4': 'Chrysler', '2FM': 'Ford', '2G1': 'Chevrolet', '2GN': 'Chevrolet', '2HG': 'Honda',
+  '2HK': 'Honda', '2T1': 'Toyota', '2T3': 'Toyota', '3C4': 'Chrysler', '3C6': 'Ram', '3FA': 'Ford',
+  '3GC': 'Chevrolet', '3GN': 'Chevrolet', '3GT': 'GMC', '3N1': 'Nissan', '3VW': 'Volkswagen',
+  '4S3': 'Subaru', '4S4': 'Subaru', '4T1': 'Toyota', '4T3': 'Toyota', '5FN': 'Honda', '5J6': 'Honda',
+  '5N1': 'Nissan', '5NP': 'Hyundai', '5TD': 'Toyota', '5TF': 'Toyota', '5XY': 'Kia', '5YJ': 'Tesla',
+  '7SA': 'Tesla', 'JA3': 'Mitsubishi', 'JF1': 'Subaru', 'JF2': 'Subaru', 'JHM': 'Honda', 'JM1': 'Mazda',
+  'JM3': 'Mazda', 'JN1': 'Nissan', 'JN8': 'Nissan', 'JTD': 'Toyota', 'JTE': 'Toyota', 'JTH': 'Lexus',
+  'JTJ': 'Lexus', 'JTM': 'Toyota', 'JTN': 'Toyota', 'KM8': 'Hyundai', 'KMH': 'Hyundai', 'KNA': 'Kia',
+  'KND': 'Kia', 'SAL': 'Land Rover', 'SAJ': 'Jaguar', 'WAU': 'Audi', 'WA1': 'Audi', 'WBA': 'BMW',
+  'WBS': 'BMW', 'WBX': 'BMW', 'WDC': 'Mercedes-Benz', 'WDD': 'Mercedes-Benz', 'W1K': 'Mercedes-Benz',
+  'W1N': 'Mercedes-Benz', 'WMW': 'MINI', 'WP0': 'Porsche', 'WP1': 'Porsche', 'WVW': 'Volkswagen',
+  'WVG': 'Volkswagen', 'YV1': 'Volvo', 'YV4': 'Volvo', 'ZFF': 'Ferrari', 'ZAR': 'Alfa Romeo'
+};
+
+const REGIONS: Array<[RegExp, string]> = [
+  [/^[1457]/, 'United States'],
+  [/^2/, 'Canada'],
+  [/^3/, 'Mexico'],
+  [/^J/, 'Japan'],
+  [/^K[L-R]/, 'South Korea'],
+  [/^L/, 'China'],
+  [/^S[A-M]/, 'United Kingdom'],
+  [/^W/, 'Germany'],
+  [/^Y[A-E]/, 'Finland'],
+  [/^Y[S-W]/, 'Sweden'],
+  [/^V[F-R]/, 'France'],
+  [/^V[S-W]/, 'Spain'],
+  [/^Z[A-R]/, 'Italy']
+];
+
+export const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+export const computeCheckDigit = (vin: string): string => {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? parseInt(char, 10) : TRANSLITERATION[char] ?? 0;
+    return total + value * POSITION_WEIGHTS[index];
+  }, 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+};
+
+const decodeModelYear = (vin: string, isNorthAmerican: boolean): number | undefined => {
+  const index = YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const candidates = [1980 + index, 2010 + index, 2040 + index];
+
+  // North American light vehicles use a letter in position 7 from 2010 onwards
+  if (isNorthAmerican) {
+    return /\d/.test(vin[6]) ? candidates[0] : candidates[1];
+  }
+
+  const latestPlausible = new Date().getFullYear() + 1;
+  return candidates.filter(year => year <= latestPlausible).pop();
+};
+
+// Offline decode of a 17-character VIN; returns null when the format is invalid
+export const decodeVin = (vin: string): VinDecoding | null => {
+  if (!VIN_PATTERN.test(vin)) {
+    return null;
+  }
+
+  const wmi = vin.slice(0, 3);
+  const region = REGIONS.find(([pattern]) => pattern.test(vin))?.[1] || 'Unknown';
+  const isNorthAmerican = /^[1-5]/.test(vin);
+  const expectedCheckDigit = computeCheckDigit(vin);
+
+  return {
+    vin,
+    wmi,
+    manufacturer: WMI_MANUFACTURERS[wmi],
+    region,
+    modelYear: decodeModelYear(vin, isNorthAmerican),
+    checkDigit: vin[8],
+    expectedCheckDigit,
+    checksumValid: vin[8] === expectedCheckDigit,
+    checksumRequired: isNorthAmerican
+  };
+};
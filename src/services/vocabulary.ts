@@ -0,0 +1,151 @@
+export interface VocabularyTerm {
+  term: string; // Spelling written into transcripts
+  misheard?: string[]; // What speech-to-text tends to write instead
+}
+
+// One replacement made by the correction pass
+export interface TranscriptCorrection {
+  from: string; // As the provider wrote it
+  to: string;
+  index: number; // Character offset in the raw text
+}
+
+// Biasing passed to providers: a free-text prompt for Whisper, a phrase list for the cloud APIs
+export interface VocabularyHints {
+  prompt: string;
+  phrases: string[];
+}
+
+// Trade terms every shop uses; a shop's own terms are added on top and can redefine these
+export const AUTOMOTIVE_VOCABULARY: VocabularyTerm[] = [
+  { term: 'quarter panel', misheard: ['quarter pannel', 'court her panel', 'cordor panel'] },
+  { term: 'rocker panel', misheard: ['rocket panel', 'rocker pannel'] },
+  { term: 'core support', misheard: ['core sport', 'corps support'] },
+  { term: 'bumper cover' },
+  { term: 'bumper reinforcement' },
+  { term: 'fender liner', misheard: ['fender line her'] },
+  { term: 'A-pillar' },
+  { term: 'B-pillar' },
+  { term: 'C-pillar' },
+  { term: 'headlamp' },
+  { term: 'blend' },
+  { term: 'refinish' },
+  { term: 'clear coat', misheard: ['clear code', 'clear cote'] },
+  { term: 'tri-coat', misheard: ['try coat', 'tri coat', 'tricoat'] },
+  { term: 'paintless dent repair' },
+  { term: 'frame rack' },
+  { term: 'unibody' },
+  { term: 'supplement' },
+  { term: 'teardown' },
+  { term: 'R&I' },
+  { term: 'R&R' },
+  { term: 'PDR' },
+  { term: 'OEM' },
+  { term: 'ADAS', misheard: ['a das'] },
+  { term: 'SRS' },
+  { term: 'DRP' },
+  { term: 'LKQ' },
+  { term: 'Mopar', misheard: ['mo par', 'mow par'] },
+  { term: 'Motorcraft', misheard: ['motor craft'] },
+  { term: 'ACDelco', misheard: ['AC Delco', 'a c delco'] }
+];
+
+// Whisper only reads the last ~224 tokens of its prompt
+const MAX_PROMPT_CHARS = 800;
+const MAX_PHRASES = 500;
+
+const termKey = (term: string): string => term.trim().toLowerCase();
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Spaces and hyphens are interchangeable in what providers write ("tri coat", "tri-coat")
+const phrasePattern = (phrase: string): string =>
+  phrase.trim().split(/[\s-]+/).map(escapeRegExp).join('[\\s-]+');
+
+/**
+ * Everything that should read as the term: its listed mis-hearings, and for abbreviations the ways
+ * they come out when spoken: letters spelled out ("P D R", "p.d.r.") or "R and I" for R&I.
+ */
+const variantPatterns = (entry: VocabularyTerm): string[] => {
+  const patterns = (entry.misheard || []).filter(variant => variant.trim()).map(phrasePattern);
+  const term = entry.term.trim();
+
+  const ampersand = term.match(/^([A-Z])&([A-Z])$/);
+  if (ampersand) {
+    patterns.push(`${ampersand[1]}\\s*(?:&|and|n)\\s*${ampersand[2]}`);
+  } else if (/^[A-Z]{2,5}$/.test(term)) {
+    patterns.push(term.split('').join('[\\s.-]*'));
+  }
+
+  return patterns;
+};
+
+// The shop's terms first, replacing built-in entries with the same spelling
+export const mergeVocabulary = (shopTerms: VocabularyTerm[] = []): VocabularyTerm[] => {
+  const shopKeys = new Set(shopTerms.map(entry => termKey(entry.term)));
+  return [...shopTerms, ...AUTOMOTIVE_VOCABULARY.filter(entry => !shopKeys.has(termKey(entry.term)))];
+};
+
+export const buildVocabularyHints = (vocabulary: VocabularyTerm[]): VocabularyHints | undefined => {
+  const phrases = Array.from(new Set(vocabulary.map(entry => entry.term.trim()).filter(Boolean))).slice(0, MAX_PHRASES);
+  if (phrases.length === 0) {
+    return undefined;
+  }
+
+  let prompt = 'Auto body shop repair note. Terms:';
+  for (const phrase of phrases) {
+    if (prompt.length + phrase.length + 2 > MAX_PROMPT_CHARS) {
+      break;
+    }
+    prompt += `${prompt.endsWith(':') ? ' ' : ', '}${phrase}`;
+  }
+
+  return { prompt: `${prompt}.`, phrases };
+};
+
+/**
+ * Rewrite mis-heard trade terms to the glossary spelling and report each change. Matches must stand
+ * alone as words; where matches overlap the longer one wins.
+ */
+export const correctTranscript = (
+  text: string,
+  vocabulary: VocabularyTerm[]
+): { text: string; corrections: TranscriptCorrection[] } => {
+  const matches: Array<{ index: number; length: number; to: string }> = [];
+
+  for (const entry of vocabulary) {
+    const term = entry.term.trim();
+    for (const pattern of variantPatterns(entry)) {
+      const regex = new RegExp(`(?<![\\w&])${pattern}(?![\\w&])`, 'gi');
+      for (const match of text.matchAll(regex)) {
+        if (match[0] !== term) {
+          matches.push({ index: match.index!, length: match[0].length, to: term });
+        }
+      }
+    }
+  }
+
+  matches.sort((a, b) => a.index - b.index || b.length - a.length);
+
+  const corrections: TranscriptCorrection[] = [];
+  let corrected = '';
+  let cursor = 0;
+  for (const match of matches) {
+    if (match.index < cursor) {
+      continue;
+    }
+    const from = text.slice(match.index, match.index + match.length);
+    // Keep a capital at the start of a sentence ("Quarter pannel ..." -> "Quarter panel ...")
+    const to = /^[A-Z]/.test(from) && /^[a-z]/.test(match.to) ? match.to[0].toUpperCase() + match.to.slice(1) : match.to;
+    if (from === to) {
+      cursor = match.index + match.length;
+      continue;
+    }
+    corrected += text.slice(cursor, match.index) + to;
+    corrections.push({ from, to, index: match.index });
+    cursor = match.index + match.length;
+  }
+  corrected += text.slice(cursor);
+
+  return { text: corrected, corrections };
+};
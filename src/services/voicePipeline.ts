@@ -0,0 +1,152 @@
+import { transcriptionRepository, StoredTranscription } from '../repositories/transcriptionRepository';
+import { extractionRepository, StoredExtraction } from '../repositories/extractionRepository';
+import { repairNoteRepository, StoredRepairNote } from '../repositories/repairNoteRepository';
+import { StoredRepairJob } from '../repositories/repairJobRepository';
+import { userRepository } from '../repositories/userRepository';
+import { SpeechToTextService, TranscriptionOptions, TranscriptionResult, TranscriptionStage } from './speechToText';
+import { CustomSchema, DataExtractionService, ExtractionType } from './dataExtraction';
+import { RepairJobService } from './repairJobs';
+import { AudioRetentionService } from './audioRetention';
+import { labelSpeakers, SpeakerEnrollment, speakerRoleForUser } from './speakerRoles';
+import { extractionSource, isEnglish, TranslationService } from './translation';
+
+export type PipelineStage = TranscriptionStage | 'translating' | 'extracting';
+
+export interface PipelineAudio {
+  shopId: string;
+  userId: string;
+  audioBuffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  options: TranscriptionOptions;
+}
+
+export interface PipelineRequest extends PipelineAudio {
+  extractionType: ExtractionType;
+  customSchema?: CustomSchema;
+}
+
+export interface PipelineResult {
+  note: StoredRepairNote;
+  transcription: StoredTranscription;
+  extraction: StoredExtraction;
+  repairJob: StoredRepairJob | null; // Job the note was filed under by its job number or VIN
+}
+
+// Server-side voice-to-record orchestration shared by the pipeline endpoint and background jobs
+export class VoicePipelineService {
+  constructor(private onStage?: (stage: PipelineStage) => void) {}
+
+  async transcribe(audio: PipelineAudio): Promise<StoredTranscription> {
+    const stt = await SpeechToTextService.forShop(audio.shopId);
+    const recorder = await userRepository.findById(audio.userId);
+    const enrollment: SpeakerEnrollment = { labels: audio.options.speakerRoles, recordedBy: speakerRoleForUser(recorder?.role) };
+    const result = await stt.transcribe({
+      audioBuffer: audio.audioBuffer,
+      mimeType: audio.mimeType,
+      fileName: audio.fileName,
+      userId: audio.userId,
+      options: audio.options,
+      recordedBy: enrollment.recordedBy,
+      onProgress: this.onStage
+    });
+
+    const transcription = await transcriptionRepository.create({
+      shopId: audio.shopId,
+      userId: audio.userId,
+      fileName: audio.fileName,
+      mimeType: audio.mimeType,
+      fileSize: audio.fileSize,
+      result: await this.translate(audio, result, enrollment)
+    });
+
+    return new AudioRetentionService().retain(transcription, audio.audioBuffer);
+  }
+
+  /**
+   * Add an English translation to a transcript in another language so the work order comes out in
+   * English. A failed translation is recorded on the result and the original text is used, rather than
+   * losing the note.
+   */
+  private async translate(audio: PipelineAudio, result: TranscriptionResult, enrollment: SpeakerEnrollment): Promise<TranscriptionResult> {
+    const enabled = audio.options.translate ?? process.env.TRANSLATE_TO_ENGLISH !== 'false';
+    if (!enabled || isEnglish(result.language) || !result.text.trim()) {
+      return result;
+    }
+
+    this.onStage?.('translating');
+    try {
+      const translator = await TranslationService.forShop(audio.shopId);
+      const translated = { ...result, translation: await translator.toEnglish(result) };
+      // Speakers were first labelled from the original words; the English gives the role cues a chance
+      return labelSpeakers(translated, enrollment);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`Translation from ${result.language} skipped:`, message);
+      return { ...result, translationError: message };
+    }
+  }
+
+  async extract(
+    transcription: StoredTranscription,
+    extractionType: ExtractionType,
+    customSchema?: CustomSchema
+  ): Promise<StoredExtraction> {
+    this.onStage?.('extracting');
+
+    const source = extractionSource(transcription.result);
+    const extractionService = await DataExtractionService.forShop(transcription.shopId);
+    const result = await extractionService.extractData({
+      transcription: source.text,
+      extractionType,
+      customSchema,
+      segments: source.segments,
+      userId: transcription.userId
+    });
+
+    return extractionRepository.create({
+      shopId: transcription.shopId,
+      userId: transcription.userId,
+      transcriptionId: transcription.id,
+      transcription: source.text,
+      extractionType,
+      result
+    });
+  }
+
+  async run(request: PipelineRequest): Promise<PipelineResult> {
+    const startTime = Date.now();
+    const transcription = await this.transcribe(request);
+    return this.completeNote(transcription, request.extractionType, request.customSchema, startTime);
+  }
+
+  // Extract from a stored transcription, tie both into a repair note and file it under its repair job
+  async completeNote(
+    transcription: StoredTranscription,
+    extractionType: ExtractionType,
+    customSchema?: CustomSchema,
+    startTime: number = Date.now()
+  ): Promise<PipelineResult> {
+    const extraction = await this.extract(transcription, extractionType, customSchema);
+
+    const note = await repairNoteRepository.create({
+      shopId: transcription.shopId,
+      userId: transcription.userId,
+      transcriptionId: transcription.id,
+      extractionId: extraction.id,
+      extractionType,
+      fileName: transcription.fileName,
+      mimeType: transcription.mimeType,
+      fileSize: transcription.fileSize,
+      model: transcription.result.model,
+      language: transcription.result.language,
+      success: extraction.result.success,
+      processingTime: Date.now() - startTime
+    });
+
+    const repairJob = await new RepairJobService().linkExtraction(extraction);
+
+    return { note, transcription, extraction, repairJob };
+  }
+}
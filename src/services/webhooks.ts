@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+
+// Loopback, private, link-local (cloud metadata at 169.254.169.254), shared, multicast and reserved ranges
+const PRIVATE_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+// For local development against a receiver on the same machine or network
+const allowPrivateAddresses = (): boolean => process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES === 'true';
+
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are matched against the IPv4 ranges by the block list
+export const isPublicAddress = (address: string): boolean =>
+  !PRIVATE_RANGES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+const lookupAll = (hostname: string): Promise<dns.LookupAddress[]> =>
+  new Promise((resolve, reject) => {
+    dns.lookup(hostname, { all: true }, (error, addresses) => error ? reject(error) : resolve(addresses));
+  });
+
+/**
+ * Why a callback URL may not be used, or null when it is fine. The host must resolve, and only to
+ * public addresses, so a job cannot be pointed at the server's own network.
+ */
+export const checkCallbackUrl = async (url: string): Promise<string | null> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Callback URL is not a valid URL';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return 'Callback URL must use http or https';
+  }
+  if (allowPrivateAddresses()) {
+    return null;
+  }
+
+  try {
+    const addresses = await lookupAll(parsed.hostname.replace(/^\[|\]$/g, ''));
+    return addresses.every(entry => isPublicAddress(entry.address))
+      ? null
+      : 'Callback URL must not point to a private, loopback or link-local address';
+  } catch {
+    return `Callback host ${parsed.hostname} could not be resolved`;
+  }
+};
+
+// Checked again when connecting, so a host that re-resolves to a private address after validation is still refused
+const publicOnlyLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+    if (!allowPrivateAddresses() && addresses.some(entry => !isPublicAddress(entry.address))) {
+      callback(new Error(`Callback host ${hostname} resolves to a private address`));
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as unknown as net.LookupFunction;
+
+const httpAgent = new http.Agent({ lookup: publicOnlyLookup });
+const httpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+// Payloads are always signed; without WEBHOOK_SECRET the JWT secret is used, as for audio links
+const signingSecret = (): string => {
+  const secret = process.env.WEBHOOK_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('WEBHOOK_SECRET or JWT_SECRET environment variable is required to sign webhooks');
+  }
+  return secret;
+};
+
+export const signWebhookBody = (body: string): string =>
+  `sha256=${crypto.createHmac('sha256', signingSecret()).update(body).digest('hex')}`;
+
+// Redirects are not followed: they could lead to an address the checks above would refuse
+export const postWebhook = async (url: string, body: string): Promise<void> => {
+  // Sockets skip the lookup for a literal IP, so those are checked here
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host) && !allowPrivateAddresses()) {
+    throw new Error(`Callback address ${host} is private`);
+  }
+
+  await axios.post(url, body, {
+    headers: { 'Content-Type': 'application/json', 'X-Webhook-Signature': signWebhookBody(body) },
+    timeout: 10000,
+    maxRedirects: 0,
+    proxy: false,
+    httpAgent,
+    httpsAgent
+  });
+};
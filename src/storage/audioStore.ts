@@ -0,0 +1,130 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import axios from 'axios';
+import { S3Config, s3ConfigFromEnv, s3ObjectUrl, sha256, signS3Request } from './s3';
+
+export type AudioStorageBackend = 'local' | 's3';
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Backend-agnostic contract for keeping recorded audio after transcription
+export interface AudioStore {
+  readonly backend: AudioStorageBackend;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when the object does not exist
+  read(key: string, range?: ByteRange): Promise<Readable | null>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalAudioStore implements AudioStore {
+  readonly backend = 'local';
+
+  constructor(private directory: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable | null> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.access(filePath);
+    } catch {
+      return null;
+    }
+    return createReadStream(filePath, range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+    if (!filePath.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error(`Invalid audio key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+// Any S3-compatible store (AWS S3, MinIO, R2 ...) addressed with path-style URLs
+export class S3AudioStore implements AudioStore {
+  readonly backend = 's3';
+
+  constructor(private config: S3Config) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const url = this.objectUrl(key);
+    const headers = signS3Request(this.config, {
+      method: 'PUT',
+      url,
+      headers: { 'content-type': contentType },
+      payloadHash: sha256(data)
+    });
+    await axios.put(url.toString(), data, { headers, maxBodyLength: Infinity, timeout: 60000 });
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable | null> {
+    const url = this.objectUrl(key);
+    const headers = signS3Request(this.config, {
+      method: 'GET',
+      url,
+      headers: range ? { range: `bytes=${range.start}-${range.end}` } : {},
+      payloadHash: sha256('')
+    });
+    const response = await axios.get<Readable>(url.toString(), {
+      headers,
+      responseType: 'stream',
+      timeout: 60000,
+      validateStatus: status => status === 200 || status === 206 || status === 404
+    });
+    if (response.status === 404) {
+      response.data.resume();
+      return null;
+    }
+    return response.data;
+  }
+
+  async delete(key: string): Promise<void> {
+    const url = this.objectUrl(key);
+    const headers = signS3Request(this.config, { method: 'DELETE', url, payloadHash: sha256('') });
+    await axios.delete(url.toString(), {
+      headers,
+      timeout: 60000,
+      validateStatus: status => status < 300 || status === 404
+    });
+  }
+
+  private objectUrl(key: string): URL {
+    return s3ObjectUrl(this.config, key);
+  }
+}
+
+// Resolves to null when audio retention is switched off (AUDIO_STORAGE_BACKEND=none)
+export const createAudioStore = (): AudioStore | null => {
+  const backend = process.env.AUDIO_STORAGE_BACKEND || 'local';
+
+  switch (backend) {
+    case 'none':
+      return null;
+    case 'local':
+      return new LocalAudioStore(path.join(process.env.UPLOAD_DIR || './uploads', 'audio'));
+    case 's3':
+      return new S3AudioStore(s3ConfigFromEnv('audio storage'));
+    default:
+      throw new Error(`Unsupported audio storage backend: ${backend}`);
+  }
+};
+
+export const audioStore = createAudioStore();
+
+// Recordings of background jobs wait here until a worker runs them; with retention off that is a local directory
+export const jobAudioStore: AudioStore = audioStore ?? new LocalAudioStore(path.join(process.env.UPLOAD_DIR || './uploads', 'jobs'));
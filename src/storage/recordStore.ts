@@ -0,0 +1,344 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { S3Config, s3ConfigFromEnv, s3ObjectUrl, sha256, signS3Request } from './s3';
+
+export interface StoredRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QueryOptions<T> {
+  where?: (record: T) => boolean;
+  offset?: number;
+  limit?: number;
+  order?: 'asc' | 'desc';
+}
+
+export interface PagedResult<T> {
+  items: T[];
+  total: number;
+}
+
+export interface InsertOptions<T> {
+  // Rejects the insert when an existing record matches, checked atomically with the write
+  unique?: (existing: T) => boolean;
+}
+
+export class DuplicateRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DuplicateRecordError';
+  }
+}
+
+// Backend-agnostic persistence contract used by the repositories
+export interface RecordStore<T extends StoredRecord> {
+  insert(record: T, options?: InsertOptions<T>): Promise<T>;
+  get(id: string): Promise<T | null>;
+  update(id: string, patch: Partial<T>): Promise<T | null>;
+  // Read-modify-write applied atomically; change returns null to leave the record as it is
+  mutate(id: string, change: (current: T) => Partial<T> | null): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+  findOne(where: (record: T) => boolean): Promise<T | null>;
+  query(options?: QueryOptions<T>): Promise<PagedResult<T>>;
+}
+
+export type StorageBackend = 'memory' | 'file' | 's3';
+
+export class MemoryRecordStore<T extends StoredRecord> implements RecordStore<T> {
+  protected records = new Map<string, T>();
+
+  async insert(record: T, options: InsertOptions<T> = {}): Promise<T> {
+    await this.load();
+    if (this.records.has(record.id)) {
+      throw new DuplicateRecordError(`Record ${record.id} already exists`);
+    }
+    // No await between this check and the set below, so concurrent inserts cannot both pass it
+    const unique = options.unique;
+    if (unique && Array.from(this.records.values()).some(existing => unique(existing))) {
+      throw new DuplicateRecordError(`A matching record already exists`);
+    }
+
+    this.records.set(record.id, record);
+    await this.persist();
+    return record;
+  }
+
+  async get(id: string): Promise<T | null> {
+    await this.load();
+    return this.records.get(id) || null;
+  }
+
+  async update(id: string, patch: Partial<T>): Promise<T | null> {
+    return this.applyChange(id, () => patch);
+  }
+
+  async mutate(id: string, change: (current: T) => Partial<T> | null): Promise<T | null> {
+    return this.applyChange(id, change);
+  }
+
+  // Shared by update and mutate, so stores that wrap those methods do not wrap one inside the other
+  protected async applyChange(id: string, change: (current: T) => Partial<T> | null): Promise<T | null> {
+    await this.load();
+    const existing = this.records.get(id);
+    // change runs synchronously against the current record, so no other write can slip in between
+    const patch = existing && change(existing);
+    if (!existing || !patch) {
+      return null;
+    }
+
+    const updated: T = {
+      ...existing,
+      ...patch,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.records.set(id, updated);
+    await this.persist();
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = this.records.delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async findOne(where: (record: T) => boolean): Promise<T | null> {
+    await this.load();
+    for (const record of this.records.values()) {
+      if (where(record)) {
+        return record;
+      }
+    }
+    return null;
+  }
+
+  async query(options: QueryOptions<T> = {}): Promise<PagedResult<T>> {
+    await this.load();
+    const direction = options.order === 'asc' ? 1 : -1;
+
+    const matches = Array.from(this.records.values())
+      .filter(record => !options.where || options.where(record))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt) * direction);
+
+    const offset = options.offset || 0;
+    const items = options.limit !== undefined
+      ? matches.slice(offset, offset + options.limit)
+      : matches.slice(offset);
+
+    return { items, total: matches.length };
+  }
+
+  // Hooks for persistent subclasses; the in-memory store keeps nothing on disk
+  protected async load(): Promise<void> {}
+
+  protected async persist(): Promise<void> {}
+}
+
+// Keeps each collection as a single JSON file, rewritten atomically on every change
+export class FileRecordStore<T extends StoredRecord> extends MemoryRecordStore<T> {
+  private readonly filePath: string;
+  private loaded: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(directory: string, collection: string) {
+    super();
+    this.filePath = path.join(directory, `${collection}.json`);
+  }
+
+  protected load(): Promise<void> {
+    if (!this.loaded) {
+      // A failed read is retried on the next call instead of breaking the store until restart
+      this.loaded = this.readFromDisk().catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  protected persist(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.records.values()), null, 2);
+
+    // Serialize writes so concurrent requests never interleave partial files
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, snapshot, 'utf8');
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.writeQueue;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      const records = JSON.parse(contents) as T[];
+      for (const record of records) {
+        this.records.set(record.id, record);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to load ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+}
+
+/**
+ * Keeps each collection as one JSON object in an S3 bucket so every server instance sees the same
+ * records. Each operation revalidates the object (a 304 when nothing changed) and writes it back only
+ * if its ETag is unchanged, redoing the operation when another instance wrote in between. Operations
+ * in one process are queued, as they share the record map. Suits the modest collections a shop produces.
+ */
+export class S3RecordStore<T extends StoredRecord> extends MemoryRecordStore<T> {
+  private static readonly MAX_ATTEMPTS = 10;
+  private readonly url: URL;
+  private etag: string | null = null;
+  private changed = false;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private config: S3Config, collection: string) {
+    super();
+    this.url = s3ObjectUrl(config, `records/${collection}.json`);
+  }
+
+  insert(record: T, options?: InsertOptions<T>): Promise<T> {
+    return this.transaction(() => super.insert(record, options));
+  }
+
+  get(id: string): Promise<T | null> {
+    return this.transaction(() => super.get(id));
+  }
+
+  update(id: string, patch: Partial<T>): Promise<T | null> {
+    return this.transaction(() => super.update(id, patch));
+  }
+
+  mutate(id: string, change: (current: T) => Partial<T> | null): Promise<T | null> {
+    return this.transaction(() => super.mutate(id, change));
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.transaction(() => super.delete(id));
+  }
+
+  findOne(where: (record: T) => boolean): Promise<T | null> {
+    return this.transaction(() => super.findOne(where));
+  }
+
+  query(options?: QueryOptions<T>): Promise<PagedResult<T>> {
+    return this.transaction(() => super.query(options));
+  }
+
+  // The operation's own writes only mark the collection changed; it is saved once the operation is done
+  protected async persist(): Promise<void> {
+    this.changed = true;
+  }
+
+  private transaction<R>(operation: () => Promise<R>): Promise<R> {
+    const run = async (): Promise<R> => {
+      for (let attempt = 0; attempt < S3RecordStore.MAX_ATTEMPTS; attempt++) {
+        await this.fetch();
+        this.changed = false;
+        try {
+          const result = await operation();
+          if (!this.changed || await this.save()) {
+            return result;
+          }
+        } catch (error) {
+          this.etag = null; // The map may hold half an operation; read it whole next time
+          throw error;
+        }
+        this.etag = null;
+      }
+      throw new Error(`${this.url.pathname} kept changing; gave up after ${S3RecordStore.MAX_ATTEMPTS} attempts`);
+    };
+
+    const result = this.queue.catch(() => undefined).then(run);
+    this.queue = result;
+    return result;
+  }
+
+  private async fetch(): Promise<void> {
+    const headers = signS3Request(this.config, {
+      method: 'GET',
+      url: this.url,
+      headers: this.etag ? { 'if-none-match': this.etag } : {},
+      payloadHash: sha256('')
+    });
+    const response = await axios.get<string>(this.url.toString(), {
+      headers,
+      responseType: 'text',
+      transformResponse: data => data,
+      timeout: 30000,
+      validateStatus: status => status === 200 || status === 304 || status === 404
+    });
+    if (response.status === 304) {
+      return;
+    }
+
+    this.records.clear();
+    this.etag = response.status === 200 ? String(response.headers.etag) : null;
+    if (response.status === 200) {
+      for (const record of JSON.parse(response.data) as T[]) {
+        this.records.set(record.id, record);
+      }
+    }
+  }
+
+  // False when another instance wrote the collection since it was fetched
+  private async save(): Promise<boolean> {
+    const body = JSON.stringify(Array.from(this.records.values()));
+    const headers = signS3Request(this.config, {
+      method: 'PUT',
+      url: this.url,
+      headers: {
+        'content-type': 'application/json',
+        ...(this.etag ? { 'if-match': this.etag } : { 'if-none-match': '*' })
+      },
+      payloadHash: sha256(body)
+    });
+    const response = await axios.put(this.url.toString(), body, {
+      headers,
+      maxBodyLength: Infinity,
+      timeout: 30000,
+      validateStatus: status => status < 300 || status === 409 || status === 412
+    });
+    if (response.status >= 300) {
+      return false;
+    }
+    this.etag = response.headers.etag ? String(response.headers.etag) : null;
+    return true;
+  }
+}
+
+export const createRecordStore = <T extends StoredRecord>(collection: string): RecordStore<T> => {
+  // Serverless filesystems are read-only outside /tmp and not shared between instances
+  if (process.env.VERCEL && !process.env.STORAGE_BACKEND) {
+    throw new Error('STORAGE_BACKEND must be set on Vercel: the default file store needs a writable, persistent disk');
+  }
+  const backend = (process.env.STORAGE_BACKEND || 'file') as StorageBackend;
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryRecordStore<T>();
+    case 'file':
+      return new FileRecordStore<T>(process.env.DATA_DIR || './data', collection);
+    case 's3':
+      return new S3RecordStore<T>(s3ConfigFromEnv('storage'), collection);
+    default:
+      throw new Error(`Unsupported storage backend: ${backend}`);
+  }
+};
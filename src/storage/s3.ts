@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+
+// Request signing and settings shared by the S3 audio store and the S3 record store
+export interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export const sha256 = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+
+export const encodeKey = (key: string): string =>
+  key.split('/').map(segment =>
+    encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  ).join('/');
+
+// AWS Signature Version 4 headers for a path-style S3 request; every header passed in is signed
+export const signS3Request = (
+  config: Pick<S3Config, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  request: { method: string; url: URL; headers?: Record<string, string>; payloadHash: string; date?: Date }
+): Record<string, string> => {
+  const amzDate = (request.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${config.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(request.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: request.url.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate
+  };
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(';');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    '',
+    ...names.map(name => `${name}:${headers[name]}`),
+    '',
+    signedHeaders,
+    request.payloadHash
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, day), config.region)
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  // axios sets Host from the URL itself
+  const { host: _host, ...sent } = headers;
+  return {
+    ...sent,
+    authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+};
+
+export const s3ObjectUrl = (config: Pick<S3Config, 'endpoint' | 'bucket'>, key: string): URL =>
+  new URL(`${config.endpoint.replace(/\/+$/, '')}/${encodeURIComponent(config.bucket)}/${encodeKey(key)}`);
+
+// purpose names the setting that asked for S3 in the error message
+export const s3ConfigFromEnv = (purpose: string): S3Config => {
+  const region = process.env.S3_REGION || 'us-east-1';
+  const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error(`S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for the s3 ${purpose} backend`);
+  }
+  return {
+    endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+    bucket: S3_BUCKET,
+    region,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY
+  };
+};
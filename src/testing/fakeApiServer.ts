@@ -0,0 +1,52 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { TranscriptionRequest } from '../services/speechToText';
+
+export interface RecordedRequest {
+  method?: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export interface FakeApiServer {
+  endpoint: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Stands in for a provider's HTTP API on a local port: records each request and answers it with the
+ * next queued status and JSON body, or a 500 once the queue is empty.
+ */
+export const startFakeApiServer = async (responses: Array<[number, unknown]>): Promise<FakeApiServer> => {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url || '', headers: req.headers, body: Buffer.concat(chunks) });
+      const [status, body] = responses.shift() || [500, { error: { message: 'No response queued' } }];
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+};
+
+// A short webm recording sent to the given model, with the options a test does not care about filled in
+export const transcriptionRequest = (model: string, overrides: Partial<TranscriptionRequest> = {}): TranscriptionRequest => ({
+  audioBuffer: Buffer.from('audio'),
+  mimeType: 'audio/webm',
+  fileName: 'note.webm',
+  userId: 'user-1',
+  options: { model, timestamp: true, speakerDiarization: false },
+  ...overrides
+});
@@ -0,0 +1,18 @@
+import './env';
+import { jobWorker } from './services/jobQueue';
+import { scheduleAudioPurge } from './services/audioRetention';
+
+// Runs background jobs apart from the web server, e.g. for a serverless deployment that only queues them.
+// It must share STORAGE_BACKEND and AUDIO_STORAGE_BACKEND with the server.
+jobWorker.start();
+// The worker is the long-running process in that setup, so it also purges expired recordings
+scheduleAudioPurge();
+console.log(`⏳ Job worker ${jobWorker.id} running`);
+
+// Stop taking jobs and exit once the running ones are done
+const shutdown = () => {
+  console.log('Job worker stopping after running jobs finish');
+  jobWorker.stop();
+};
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);